@@ -0,0 +1,227 @@
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import streamDeck from "@elgato/streamdeck";
+import { SesameAPI, StatsPeriod } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { describeError, showButtonError } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
+
+/**
+ * Key title of each period, in the order a press cycles through them.
+ */
+const PERIODS: Array<{ period: StatsPeriod; label: string }> = [
+    { period: 'day', label: 'Hoy' },
+    { period: 'week', label: 'Semana' },
+    { period: 'month', label: 'Mes' },
+];
+
+/**
+ * Generate an SVG image with the signed balance of a period and the worked vs owed hours
+ */
+function generateBalanceSVG(label: string, balanceText: string, detailText: string, color: string): string {
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="#1e293b"/>
+            <text x="72" y="36" font-family="Arial, sans-serif" font-size="16" fill="#cbd5e1" text-anchor="middle">${label}</text>
+            <text x="72" y="86" font-family="Arial, sans-serif" font-size="34" font-weight="bold" fill="${color}" text-anchor="middle">${balanceText}</text>
+            ${detailText ? `<text x="72" y="122" font-family="Arial, sans-serif" font-size="14" fill="#94a3b8" text-anchor="middle">${detailText}</text>` : ''}
+        </svg>
+    `)}`;
+}
+
+/**
+ * Format seconds as H:MM with a leading sign (+ for time in favour)
+ */
+function formatBalance(seconds: number): string {
+    const sign = seconds < 0 ? '-' : '+';
+    return `${sign}${formatHours(Math.abs(seconds))}`;
+}
+
+/**
+ * Format seconds as H:MM (hours are not padded, a month can exceed 99 hours)
+ */
+function formatHours(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return `${hours}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Action that shows the hour balance (worked minus owed) of today, this week or this month
+ */
+@action({ UUID: "com.pablo-magaa.sesamecheck.balance" })
+export class Balance extends SingletonAction<BalanceSettings> {
+    private static readonly REFRESH_INTERVAL_MS = 300000; // Statistics are not part of the status poll
+
+    private readonly actionInstances: Set<any> = new Set();
+    private readonly keys: Map<string, BalanceKeyState> = new Map();
+    private statusChangeListener: ((profileId: string) => void) | null = null;
+
+    /**
+     * Show the balance and refresh it periodically while the key is visible
+     */
+    override async onWillAppear(ev: WillAppearEvent<BalanceSettings>): Promise<void> {
+        this.actionInstances.add(ev.action);
+        const state = this.stateFor(ev.action);
+        state.settings = ev.payload.settings;
+        state.refreshInterval = setInterval(() => {
+            this.updateButtonState(ev.action).catch(error => {
+                streamDeck.logger.error('Balance: Error refreshing balance:', error);
+            });
+        }, Balance.REFRESH_INTERVAL_MS);
+
+        await this.updateButtonState(ev.action);
+
+        // Punches change the balance: refresh with the other keys (only once for all instances)
+        if (!this.statusChangeListener) {
+            this.statusChangeListener = (profileId) => {
+                for (const action of this.actionInstances) {
+                    if (this.apiFor(action).profileId !== profileId) {
+                        continue;
+                    }
+                    this.updateButtonState(action).catch(error => {
+                        streamDeck.logger.error('Balance: Error updating button:', error);
+                    });
+                }
+            };
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
+        }
+    }
+
+    /**
+     * Stop refreshing when the key is no longer visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<BalanceSettings>): void {
+        this.actionInstances.delete(ev.action);
+        const state = this.stateFor(ev.action);
+        if (state.refreshInterval) {
+            clearInterval(state.refreshInterval);
+        }
+        this.keys.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile and period chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<BalanceSettings>): Promise<void> {
+        this.stateFor(ev.action).settings = ev.payload.settings;
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Cycle day, week and month
+     */
+    override async onKeyDown(ev: KeyDownEvent<BalanceSettings>): Promise<void> {
+        const state = this.stateFor(ev.action);
+        const index = PERIODS.findIndex(p => p.period === (state.settings.period ?? 'week'));
+        const period = PERIODS[(index + 1) % PERIODS.length].period;
+
+        streamDeck.logger.info(`Balance: Switching to ${period}`);
+        state.settings = { ...state.settings, period };
+        await ev.action.setSettings(state.settings);
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * State of one key, created on first use
+     */
+    private stateFor(action: any): BalanceKeyState {
+        let state = this.keys.get(action.id);
+        if (!state) {
+            state = { settings: {}, refreshInterval: null };
+            this.keys.set(action.id, state);
+        }
+        return state;
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.stateFor(action).settings.profileId);
+    }
+
+    /**
+     * Handle messages from property inspector (login form)
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, BalanceSettings>): Promise<void> {
+        const { payload } = ev;
+        const api = this.apiFor(ev.action);
+
+        if (payload.event === 'login') {
+            const { email, password, rememberPassword } = payload;
+
+            if (!email || !password) {
+                await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
+                return;
+            }
+
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
+
+            if (result.ok) {
+                await this.updateButtonState(ev.action);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
+            }
+        } else if (payload.event === 'logout') {
+            await api.logout();
+            await this.updateButtonState(ev.action);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+
+    /**
+     * Fetch the statistics of the selected period and draw the balance
+     */
+    private async updateButtonState(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const period = this.stateFor(action).settings.period ?? 'week';
+        const label = PERIODS.find(p => p.period === period)?.label ?? '';
+
+        try {
+            const isAuthenticated = await api.performLogin();
+            const workStatus = isAuthenticated ? await api.getWorkStatus() : null;
+            if (!workStatus) {
+                streamDeck.logger.info('Balance: No work status for button update');
+                await action.setImage(generateBalanceSVG(label, '--:--', '', '#FFFFFF'));
+                return;
+            }
+
+            const stats = await api.getPeriodStatistics(workStatus.employeeId, period);
+            if (!stats) {
+                await action.setImage(generateBalanceSVG(label, '--:--', 'Sin datos', '#FFFFFF'));
+                return;
+            }
+
+            const balance = stats.secondsWorked - stats.secondsToWork;
+            streamDeck.logger.info(`Balance: ${period} worked=${stats.secondsWorked}s owed=${stats.secondsToWork}s balance=${balance}s`);
+            await action.setImage(generateBalanceSVG(
+                label,
+                formatBalance(balance),
+                `${formatHours(stats.secondsWorked)} / ${formatHours(stats.secondsToWork)}`,
+                balance < 0 ? '#ef4444' : '#22c55e'
+            ));
+
+        } catch (error) {
+            streamDeck.logger.error('Balance: Error updating button state:', error);
+            await action.setImage(generateBalanceSVG(label, '--:--', 'Error', '#FFFFFF'));
+        }
+    }
+}
+
+/**
+ * Settings for {@link Balance}.
+ */
+type BalanceSettings = {
+    profileId?: string; // Sesame profile to show (default profile when unset)
+    period?: StatsPeriod; // Shown period (week when unset)
+};
+
+/**
+ * Refresh state of one {@link Balance} key.
+ */
+type BalanceKeyState = {
+    settings: BalanceSettings;
+    refreshInterval: NodeJS.Timeout | null;
+};
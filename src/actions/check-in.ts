@@ -1,12 +1,16 @@
-import { action, KeyDownEvent, SingletonAction, WillAppearEvent, SendToPluginEvent } from "@elgato/streamdeck";
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
 import streamDeck from "@elgato/streamdeck";
-import { sesameAPI } from "../services/sesame-api";
-import { showButtonError } from "../utils/error-display";
+import { SesameAPI, WorkCheckType } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { PunchConflict } from "../services/punch-outbox";
+import { AlreadyCheckedInError, ConflictError, NetworkError } from "../services/sesame-errors";
+import { describeError, escapeXml, pendingBadgeSVG, showButtonError, showPendingPunch } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
 
 /**
  * Generate an SVG image with dark background and green play icon
  */
-function generateCheckInSVG(enabled: boolean): string {
+function generateCheckInSVG(enabled: boolean, pendingCount = 0, label = ''): string {
     const bgColor = "#1e293b"; // Dark blue-gray background
     const iconColor = enabled ? "#22c55e" : "#374151"; // Green when enabled, gray when disabled
 
@@ -14,6 +18,8 @@ function generateCheckInSVG(enabled: boolean): string {
         <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
             <rect width="144" height="144" fill="${bgColor}"/>
             <polygon points="50,35 50,109 105,72" fill="${iconColor}"/>
+            ${label ? `<text x="72" y="132" font-family="Arial, sans-serif" font-size="15" fill="#cbd5e1" text-anchor="middle">${escapeXml(label)}</text>` : ''}
+            ${pendingBadgeSVG(pendingCount)}
         </svg>
     `)}`;
 }
@@ -24,30 +30,85 @@ function generateCheckInSVG(enabled: boolean): string {
 @action({ UUID: "com.pablo-magaa.sesamecheck.checkin" })
 export class CheckIn extends SingletonAction<CheckInSettings> {
     private readonly actionInstances: Set<any> = new Set();
-    private statusChangeListener: (() => void) | null = null;
+    private readonly keySettings: Map<string, CheckInSettings> = new Map(); // Profile and check type of each key
+    private statusChangeListener: ((profileId: string) => void) | null = null;
+    private punchConflictListener: ((conflict: PunchConflict, profileId: string) => void) | null = null;
 
     /**
      * Update button title based on current work status
      */
     override async onWillAppear(ev: WillAppearEvent<CheckInSettings>): Promise<void> {
         this.actionInstances.add(ev.action);
+        this.keySettings.set(ev.action.id, ev.payload.settings);
+        this.apiFor(ev.action).polling.keyAppeared();
         await this.updateButtonState(ev.action);
 
         // Register listener for status changes (only once for all instances)
         if (!this.statusChangeListener) {
-            this.statusChangeListener = () => {
-                streamDeck.logger.info('Check-in: Status change detected, updating all buttons');
-                this.updateAllButtons();
+            this.statusChangeListener = (profileId) => {
+                streamDeck.logger.info(`Check-in: Status change detected for profile ${profileId}, updating its buttons`);
+                this.updateAllButtons(profileId);
             };
-            sesameAPI.addStatusChangeListener(this.statusChangeListener);
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
         }
+
+        // Report queued check-ins that Sesame no longer accepts
+        if (!this.punchConflictListener) {
+            this.punchConflictListener = (conflict, profileId) => {
+                if (conflict.punch.kind !== 'checkIn') {
+                    return;
+                }
+                for (const action of this.actionInstances) {
+                    if (this.apiFor(action).profileId !== profileId) {
+                        continue;
+                    }
+                    showButtonError(action, new ConflictError(conflict.reason), () => this.updateButtonState(action)).catch(() => {});
+                }
+            };
+            sesameProfiles.addPunchConflictListener(this.punchConflictListener);
+        }
+    }
+
+    /**
+     * Forget the instance and let polling idle when no key is visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<CheckInSettings>): void {
+        this.actionInstances.delete(ev.action);
+        this.apiFor(ev.action).polling.keyDisappeared();
+        this.keySettings.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile and check type chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<CheckInSettings>): Promise<void> {
+        const previous = this.apiFor(ev.action);
+        this.keySettings.set(ev.action.id, ev.payload.settings);
+
+        const current = this.apiFor(ev.action);
+        if (current !== previous) {
+            previous.polling.keyDisappeared();
+            current.polling.keyAppeared();
+        }
+
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.keySettings.get(action.id)?.profileId);
     }
 
     /**
-     * Update all button instances
+     * Update all button instances bound to a profile
      */
-    private updateAllButtons(): void {
+    private updateAllButtons(profileId: string): void {
         for (const action of this.actionInstances) {
+            if (this.apiFor(action).profileId !== profileId) {
+                continue;
+            }
             this.updateButtonState(action).catch(error => {
                 streamDeck.logger.error('Check-in: Error updating button:', error);
             });
@@ -58,19 +119,31 @@ export class CheckIn extends SingletonAction<CheckInSettings> {
      * Handle check-in action
      */
     override async onKeyDown(ev: KeyDownEvent<CheckInSettings>): Promise<void> {
+        const api = this.apiFor(ev.action);
         try {
             // Ensure authentication (auto-login if needed)
             streamDeck.logger.info('Check-in: Starting authentication process');
-            const isAuthenticated = await sesameAPI.performLogin();
+            const auth = await api.authenticate();
 
-            if (!isAuthenticated) {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Auth failed', () => this.updateButtonState(ev.action));
+            if (!auth.ok) {
+                await showButtonError(ev.action, auth.error, () => this.updateButtonState(ev.action));
                 return;
             }
 
-            const workStatus = await sesameAPI.getWorkStatus();
-            if (!workStatus) {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Status error', () => this.updateButtonState(ev.action));
+            const status = await api.fetchWorkStatus();
+            if (!status.ok) {
+                if (status.error.kind === 'network') {
+                    await this.queueOfflinePunch(ev.action);
+                    return;
+                }
+                await showButtonError(ev.action, status.error, () => this.updateButtonState(ev.action));
+                return;
+            }
+
+            const workStatus = status.value;
+
+            if (workStatus.workStatus === 'online') {
+                await showButtonError(ev.action, new AlreadyCheckedInError(), () => this.updateButtonState(ev.action));
                 return;
             }
 
@@ -79,11 +152,15 @@ export class CheckIn extends SingletonAction<CheckInSettings> {
                 return;
             }
 
-            const result = await sesameAPI.checkIn(workStatus.employeeId);
-            if (result) {
+            const keySettings = this.keySettings.get(ev.action.id);
+            const coordinates = await api.resolvePunchCoordinates(keySettings?.coordinatePresetId);
+            const result = await api.checkIn(workStatus.employeeId, { workCheckTypeId: keySettings?.workCheckTypeId, coordinates, actionUUID: ev.action.manifestId });
+            if (result.ok) {
                 setTimeout(() => { this.updateButtonState(ev.action).catch(() => {}); }, 1000);
+            } else if (result.error.kind === 'network') {
+                await this.queueOfflinePunch(ev.action);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Check-in failed', () => this.updateButtonState(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
             }
 
         } catch (error) {
@@ -91,55 +168,95 @@ export class CheckIn extends SingletonAction<CheckInSettings> {
         }
     }
 
+    /**
+     * Save the check-in in the offline outbox when Sesame cannot be reached
+     */
+    private async queueOfflinePunch(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const keySettings = this.keySettings.get(action.id);
+        const punch = await api.queuePunch('checkIn', {
+            workCheckTypeId: keySettings?.workCheckTypeId,
+            coordinates: await api.resolvePunchCoordinates(keySettings?.coordinatePresetId)
+        });
+        if (punch) {
+            await showPendingPunch(action, api.pendingPunchCount, () => this.updateButtonState(action));
+        } else {
+            await showButtonError(action, new NetworkError(), () => this.updateButtonState(action));
+        }
+    }
+
     /**
      * Handle messages from property inspector (login form)
      */
     override async onSendToPlugin(ev: SendToPluginEvent<any, CheckInSettings>): Promise<void> {
         const { payload } = ev;
+        const api = this.apiFor(ev.action);
 
         if (payload.event === 'login') {
-            const { email, password } = payload;
+            const { email, password, rememberPassword } = payload;
 
             if (!email || !password) {
                 await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
                 return;
             }
 
-            const success = await sesameAPI.performLogin(email, password);
-            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success, error: sesameAPI.lastError });
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
 
-            if (success) {
+            if (result.ok) {
                 await this.updateButtonState(ev.action);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Login failed', () => this.updateButtonState(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
             }
         } else if (payload.event === 'logout') {
-            await sesameAPI.logout();
+            await api.logout();
             await this.updateButtonState(ev.action);
+        } else if (payload.event === 'loadWorkCheckTypes') {
+            await this.loadWorkCheckTypes(ev.action);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
         }
     }
 
+    /**
+     * Send the employee's work check types to the property inspector
+     */
+    private async loadWorkCheckTypes(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        let workCheckTypes: WorkCheckType[] = [];
+
+        const workStatus = await api.getWorkStatus();
+        if (workStatus) {
+            workCheckTypes = await api.getWorkCheckTypes(workStatus.employeeId) ?? [];
+        }
+
+        streamDeck.logger.info(`Check-in: Sending ${workCheckTypes.length} work check types to property inspector`);
+        await action.sendToPropertyInspector({ event: 'workCheckTypesLoaded', workCheckTypes });
+    }
+
     /**
      * Update button state based on work status
      */
     private async updateButtonState(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const label = this.keySettings.get(action.id)?.workCheckTypeName ?? '';
         try {
             streamDeck.logger.info('Check-in: Updating button state');
-            const isAuthenticated = await sesameAPI.performLogin();
+            const isAuthenticated = await api.performLogin();
 
             if (!isAuthenticated) {
                 streamDeck.logger.info('Check-in: No authentication for button update');
-                const svgImage = generateCheckInSVG(false);
+                const svgImage = generateCheckInSVG(false, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(1); // Disabled state
                 return;
             }
 
-            const workStatus = await sesameAPI.getWorkStatus();
+            const workStatus = await api.getWorkStatus();
 
             if (!workStatus) {
                 streamDeck.logger.error('Check-in: Error getting work status for button update');
-                const svgImage = generateCheckInSVG(false);
+                const svgImage = generateCheckInSVG(false, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(1); // Disabled state
                 return;
@@ -147,19 +264,19 @@ export class CheckIn extends SingletonAction<CheckInSettings> {
 
             if (workStatus.workStatus === 'offline') {
                 streamDeck.logger.info('Check-in: Status offline, enabling Entrar button');
-                const svgImage = generateCheckInSVG(true);
+                const svgImage = generateCheckInSVG(true, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(0); // Enabled state
             } else {
                 streamDeck.logger.info('Check-in: Status online/paused, disabling Entrar button');
-                const svgImage = generateCheckInSVG(false);
+                const svgImage = generateCheckInSVG(false, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(1); // Disabled state
             }
 
         } catch (error) {
             streamDeck.logger.error('Check-in: Error updating button state:', error);
-            const svgImage = generateCheckInSVG(false);
+            const svgImage = generateCheckInSVG(false, api.pendingPunchCount, label);
             await action.setImage(svgImage);
             await action.setState(1); // Disabled state
         }
@@ -170,5 +287,8 @@ export class CheckIn extends SingletonAction<CheckInSettings> {
  * Settings for {@link CheckIn}.
  */
 type CheckInSettings = {
-    // No specific settings needed for now
+    profileId?: string; // Sesame profile to punch with (default profile when unset)
+    workCheckTypeId?: string; // Work check type sent with the punch (none when unset)
+    workCheckTypeName?: string; // Shown on the key to tell e.g. office and remote keys apart
+    coordinatePresetId?: string; // Location preset of this key (profile default when unset)
 };
@@ -1,12 +1,16 @@
-import { action, KeyDownEvent, SingletonAction, WillAppearEvent, SendToPluginEvent } from "@elgato/streamdeck";
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
 import streamDeck from "@elgato/streamdeck";
-import { sesameAPI } from "../services/sesame-api";
-import { showButtonError } from "../utils/error-display";
+import { SesameAPI, WorkCheckType } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { PunchConflict } from "../services/punch-outbox";
+import { ConflictError, NetworkError } from "../services/sesame-errors";
+import { describeError, escapeXml, generateForgottenCheckOutSVG, pendingBadgeSVG, showButtonError, showPendingPunch } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
 
 /**
  * Generate an SVG image with dark background and red rounded square icon (stop icon)
  */
-function generateCheckOutSVG(enabled: boolean): string {
+function generateCheckOutSVG(enabled: boolean, pendingCount = 0, label = ''): string {
     const bgColor = "#1e293b"; // Dark blue-gray background
     const iconColor = enabled ? "#ef4444" : "#374151"; // Red when enabled, gray when disabled
 
@@ -14,6 +18,8 @@ function generateCheckOutSVG(enabled: boolean): string {
         <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
             <rect width="144" height="144" fill="${bgColor}"/>
             <rect x="47" y="47" width="50" height="50" rx="8" fill="${iconColor}"/>
+            ${label ? `<text x="72" y="132" font-family="Arial, sans-serif" font-size="15" fill="#cbd5e1" text-anchor="middle">${escapeXml(label)}</text>` : ''}
+            ${pendingBadgeSVG(pendingCount)}
         </svg>
     `)}`;
 }
@@ -24,30 +30,85 @@ function generateCheckOutSVG(enabled: boolean): string {
 @action({ UUID: "com.pablo-magaa.sesamecheck.checkout" })
 export class CheckOut extends SingletonAction<CheckOutSettings> {
     private readonly actionInstances: Set<any> = new Set();
-    private statusChangeListener: (() => void) | null = null;
+    private readonly keySettings: Map<string, CheckOutSettings> = new Map(); // Profile and check type of each key
+    private statusChangeListener: ((profileId: string) => void) | null = null;
+    private punchConflictListener: ((conflict: PunchConflict, profileId: string) => void) | null = null;
 
     /**
      * Update button title based on current work status
      */
     override async onWillAppear(ev: WillAppearEvent<CheckOutSettings>): Promise<void> {
         this.actionInstances.add(ev.action);
+        this.keySettings.set(ev.action.id, ev.payload.settings);
+        this.apiFor(ev.action).polling.keyAppeared();
         await this.updateButtonState(ev.action);
 
         // Register listener for status changes (only once for all instances)
         if (!this.statusChangeListener) {
-            this.statusChangeListener = () => {
-                streamDeck.logger.info('Check-out: Status change detected, updating all buttons');
-                this.updateAllButtons();
+            this.statusChangeListener = (profileId) => {
+                streamDeck.logger.info(`Check-out: Status change detected for profile ${profileId}, updating its buttons`);
+                this.updateAllButtons(profileId);
             };
-            sesameAPI.addStatusChangeListener(this.statusChangeListener);
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
+        }
+
+        // Report queued check-outs that Sesame no longer accepts
+        if (!this.punchConflictListener) {
+            this.punchConflictListener = (conflict, profileId) => {
+                if (conflict.punch.kind !== 'checkOut') {
+                    return;
+                }
+                for (const action of this.actionInstances) {
+                    if (this.apiFor(action).profileId !== profileId) {
+                        continue;
+                    }
+                    showButtonError(action, new ConflictError(conflict.reason), () => this.updateButtonState(action)).catch(() => {});
+                }
+            };
+            sesameProfiles.addPunchConflictListener(this.punchConflictListener);
         }
     }
 
     /**
-     * Update all button instances
+     * Forget the instance and let polling idle when no key is visible
      */
-    private updateAllButtons(): void {
+    override onWillDisappear(ev: WillDisappearEvent<CheckOutSettings>): void {
+        this.actionInstances.delete(ev.action);
+        this.apiFor(ev.action).polling.keyDisappeared();
+        this.keySettings.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile and check type chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<CheckOutSettings>): Promise<void> {
+        const previous = this.apiFor(ev.action);
+        this.keySettings.set(ev.action.id, ev.payload.settings);
+
+        const current = this.apiFor(ev.action);
+        if (current !== previous) {
+            previous.polling.keyDisappeared();
+            current.polling.keyAppeared();
+        }
+
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.keySettings.get(action.id)?.profileId);
+    }
+
+    /**
+     * Update all button instances bound to a profile
+     */
+    private updateAllButtons(profileId: string): void {
         for (const action of this.actionInstances) {
+            if (this.apiFor(action).profileId !== profileId) {
+                continue;
+            }
             this.updateButtonState(action).catch(error => {
                 streamDeck.logger.error('Check-out: Error updating button:', error);
             });
@@ -58,33 +119,50 @@ export class CheckOut extends SingletonAction<CheckOutSettings> {
      * Handle check-out action
      */
     override async onKeyDown(ev: KeyDownEvent<CheckOutSettings>): Promise<void> {
+        const api = this.apiFor(ev.action);
         try {
             streamDeck.logger.info('Check-out button pressed');
 
             // Ensure authentication (auto-login if needed)
             streamDeck.logger.info('Check-out: Starting authentication process');
-            const isAuthenticated = await sesameAPI.performLogin();
-            if (!isAuthenticated) {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Auth failed', () => this.updateButtonState(ev.action));
+            const auth = await api.authenticate();
+
+            if (!auth.ok) {
+                await showButtonError(ev.action, auth.error, () => this.updateButtonState(ev.action));
                 return;
             }
 
-            const workStatus = await sesameAPI.getWorkStatus();
-            if (!workStatus) {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Status error', () => this.updateButtonState(ev.action));
+            const status = await api.fetchWorkStatus();
+            if (!status.ok) {
+                if (status.error.kind === 'network') {
+                    await this.queueOfflinePunch(ev.action);
+                    return;
+                }
+                await showButtonError(ev.action, status.error, () => this.updateButtonState(ev.action));
                 return;
             }
 
+            const workStatus = status.value;
+
             if (workStatus.workStatus === 'offline') {
                 await this.updateButtonState(ev.action);
                 return;
             }
 
-            const result = await sesameAPI.checkOut(workStatus.employeeId);
-            if (result) {
+            const keySettings = this.keySettings.get(ev.action.id);
+            const coordinates = await api.resolvePunchCoordinates(keySettings?.coordinatePresetId);
+            const options = { workCheckTypeId: keySettings?.workCheckTypeId, coordinates, actionUUID: ev.action.manifestId };
+
+            // A forgotten check is closed at the last activity instead of now
+            const result = api.forgottenCheckOut
+                ? await api.checkOutForgotten(workStatus.employeeId, options)
+                : await api.checkOut(workStatus.employeeId, options);
+            if (result.ok) {
                 setTimeout(() => { this.updateButtonState(ev.action).catch(() => {}); }, 1000);
+            } else if (result.error.kind === 'network') {
+                await this.queueOfflinePunch(ev.action);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Check-out failed', () => this.updateButtonState(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
             }
 
         } catch (error) {
@@ -92,75 +170,123 @@ export class CheckOut extends SingletonAction<CheckOutSettings> {
         }
     }
 
+    /**
+     * Save the check-out in the offline outbox when Sesame cannot be reached
+     */
+    private async queueOfflinePunch(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const keySettings = this.keySettings.get(action.id);
+        const punch = await api.queuePunch('checkOut', {
+            workCheckTypeId: keySettings?.workCheckTypeId,
+            coordinates: await api.resolvePunchCoordinates(keySettings?.coordinatePresetId)
+        });
+        if (punch) {
+            await showPendingPunch(action, api.pendingPunchCount, () => this.updateButtonState(action));
+        } else {
+            await showButtonError(action, new NetworkError(), () => this.updateButtonState(action));
+        }
+    }
+
     /**
      * Handle messages from property inspector (login form)
      */
     override async onSendToPlugin(ev: SendToPluginEvent<any, CheckOutSettings>): Promise<void> {
         const { payload } = ev;
+        const api = this.apiFor(ev.action);
 
         if (payload.event === 'login') {
-            const { email, password } = payload;
+            const { email, password, rememberPassword } = payload;
 
             if (!email || !password) {
                 await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
                 return;
             }
 
-            const success = await sesameAPI.performLogin(email, password);
-            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success, error: sesameAPI.lastError });
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
 
-            if (success) {
+            if (result.ok) {
                 await this.updateButtonState(ev.action);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Login failed', () => this.updateButtonState(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
             }
         } else if (payload.event === 'logout') {
-            await sesameAPI.logout();
+            await api.logout();
             await this.updateButtonState(ev.action);
+        } else if (payload.event === 'loadWorkCheckTypes') {
+            await this.loadWorkCheckTypes(ev.action);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+
+    /**
+     * Send the employee's work check types to the property inspector
+     */
+    private async loadWorkCheckTypes(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        let workCheckTypes: WorkCheckType[] = [];
+
+        const workStatus = await api.getWorkStatus();
+        if (workStatus) {
+            workCheckTypes = await api.getWorkCheckTypes(workStatus.employeeId) ?? [];
         }
+
+        streamDeck.logger.info(`Check-out: Sending ${workCheckTypes.length} work check types to property inspector`);
+        await action.sendToPropertyInspector({ event: 'workCheckTypesLoaded', workCheckTypes });
     }
 
     /**
      * Update button state based on work status
      */
     private async updateButtonState(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const label = this.keySettings.get(action.id)?.workCheckTypeName ?? '';
         try {
             streamDeck.logger.info('Check-out: Updating button state');
-            const isAuthenticated = await sesameAPI.performLogin();
+            const isAuthenticated = await api.performLogin();
 
             if (!isAuthenticated) {
                 streamDeck.logger.info('Check-out: No authentication for button update');
-                const svgImage = generateCheckOutSVG(false);
+                const svgImage = generateCheckOutSVG(false, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(1); // Disabled state
                 return;
             }
 
-            const workStatus = await sesameAPI.getWorkStatus();
+            const workStatus = await api.getWorkStatus();
 
             if (!workStatus) {
                 streamDeck.logger.error('Check-out: Error getting work status for button update');
-                const svgImage = generateCheckOutSVG(false);
+                const svgImage = generateCheckOutSVG(false, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(1); // Disabled state
                 return;
             }
 
+            const forgotten = api.forgottenCheckOut;
+            if (forgotten && workStatus.workStatus !== 'offline') {
+                streamDeck.logger.info('Check-out: Check looks forgotten, offering a backdated check-out');
+                await action.setImage(generateForgottenCheckOutSVG(new Date(forgotten.checkOutAt), true));
+                await action.setState(0); // Enabled state
+                return;
+            }
+
             if (workStatus.workStatus === 'online' || workStatus.workStatus === 'paused') {
                 streamDeck.logger.info('Check-out: Status online/paused, enabling Salir button');
-                const svgImage = generateCheckOutSVG(true);
+                const svgImage = generateCheckOutSVG(true, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(0); // Enabled state
             } else {
                 streamDeck.logger.info('Check-out: Status offline, disabling Salir button');
-                const svgImage = generateCheckOutSVG(false);
+                const svgImage = generateCheckOutSVG(false, api.pendingPunchCount, label);
                 await action.setImage(svgImage);
                 await action.setState(1); // Disabled state
             }
 
         } catch (error) {
             streamDeck.logger.error('Check-out: Error updating button state:', error);
-            const svgImage = generateCheckOutSVG(false);
+            const svgImage = generateCheckOutSVG(false, api.pendingPunchCount, label);
             await action.setImage(svgImage);
             await action.setState(1); // Disabled state
         }
@@ -171,5 +297,8 @@ export class CheckOut extends SingletonAction<CheckOutSettings> {
  * Settings for {@link CheckOut}.
  */
 type CheckOutSettings = {
-    // No specific settings needed for now
+    profileId?: string; // Sesame profile to punch with (default profile when unset)
+    workCheckTypeId?: string; // Work check type sent with the punch (none when unset)
+    workCheckTypeName?: string; // Shown on the key to tell e.g. office and remote keys apart
+    coordinatePresetId?: string; // Location preset of this key (profile default when unset)
 };
\ No newline at end of file
@@ -0,0 +1,360 @@
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import streamDeck from "@elgato/streamdeck";
+import { SesameAPI, TeamMember, WorkStatusType } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { describeError, escapeXml, showButtonError } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
+
+/**
+ * Label and color of each status on the key.
+ */
+const STATUS_DISPLAY: Record<WorkStatusType, { label: string; color: string }> = {
+    'online': { label: 'Trabajando', color: '#22c55e' },
+    'paused': { label: 'En pausa', color: '#f97316' },
+    'offline': { label: 'Fuera', color: '#64748b' },
+};
+
+/**
+ * Generate an SVG image with the colleague's name, status and time in that status
+ */
+function generateColleagueSVG(name: string, status: WorkStatusType | null, duration: string, highlight = false): string {
+    const display = status ? STATUS_DISPLAY[status] : { label: 'Sin datos', color: '#374151' };
+    const bgColor = highlight ? display.color : "#1e293b";
+    const labelColor = highlight ? "#FFFFFF" : display.color;
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="${bgColor}"/>
+            <text x="72" y="34" font-family="Arial, sans-serif" font-size="17" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${escapeXml(name)}</text>
+            <circle cx="72" cy="62" r="12" fill="${highlight ? '#FFFFFF' : display.color}"/>
+            <text x="72" y="100" font-family="Arial, sans-serif" font-size="18" fill="${labelColor}" text-anchor="middle">${display.label}</text>
+            ${duration ? `<text x="72" y="126" font-family="Arial, sans-serif" font-size="16" fill="#e5e7eb" text-anchor="middle">${duration}</text>` : ''}
+        </svg>
+    `)}`;
+}
+
+/**
+ * Shorten a full name to fit the key (first name and initial of the surname)
+ */
+function shortName(fullName: string): string {
+    const [first = '', second = ''] = fullName.trim().split(/\s+/);
+    const name = second ? `${first} ${second[0]}.` : first;
+    return name.length > 13 ? `${name.slice(0, 12)}…` : name;
+}
+
+/**
+ * Format how long the colleague has been in the current status (e.g. 5m, 1h 20m)
+ */
+function formatDuration(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${String(minutes).padStart(2, '0')}m` : `${minutes}m`;
+}
+
+/**
+ * Action that follows one chosen colleague and alerts when they come online or return from a break
+ */
+@action({ UUID: "com.pablo-magaa.sesamecheck.colleague" })
+export class Colleague extends SingletonAction<ColleagueSettings> {
+    private static readonly REFRESH_INTERVAL_MS = 60000;
+    private static readonly TEAM_CACHE_MS = 30000; // Shared by every colleague key of a profile
+    private static readonly ALERT_DURATION_MS = 10000;
+
+    private readonly keys: Map<string, ColleagueKeyState> = new Map();
+    private readonly hiddenStatus: Map<string, { status: WorkStatusType; since: number | null }> = new Map(); // Per watched colleague, while no key shows them
+    private readonly teamCache: Map<string, { members: TeamMember[]; fetchedAt: number }> = new Map(); // Per profile
+
+    /**
+     * Show the colleague and refresh their status periodically while the key is visible
+     */
+    override async onWillAppear(ev: WillAppearEvent<ColleagueSettings>): Promise<void> {
+        const state = this.stateFor(ev.action);
+        state.settings = ev.payload.settings;
+
+        // Compare with the status seen before the key was hidden, so a return in between still alerts
+        const hidden = this.hiddenStatus.get(this.watchKey(state.settings));
+        if (hidden && state.status === null) {
+            state.status = hidden.status;
+            state.since = hidden.since;
+        }
+
+        state.refreshInterval = setInterval(() => {
+            this.refreshStatus(ev.action).catch(error => {
+                streamDeck.logger.error('Colleague: Error refreshing status:', error);
+            });
+        }, Colleague.REFRESH_INTERVAL_MS);
+        state.displayInterval = setInterval(() => this.updateDisplay(ev.action), 30000); // Keep the duration current
+
+        await this.refreshStatus(ev.action);
+    }
+
+    /**
+     * Stop refreshing when the key is no longer visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<ColleagueSettings>): void {
+        const state = this.stateFor(ev.action);
+        if (state.refreshInterval) {
+            clearInterval(state.refreshInterval);
+        }
+        if (state.displayInterval) {
+            clearInterval(state.displayInterval);
+        }
+        if (state.alertTimeout) {
+            clearTimeout(state.alertTimeout);
+        }
+        if (state.status && state.settings.colleagueId) {
+            this.hiddenStatus.set(this.watchKey(state.settings), { status: state.status, since: state.since });
+        }
+        this.keys.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile, colleague and alerts chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<ColleagueSettings>): Promise<void> {
+        const state = this.stateFor(ev.action);
+        if (state.settings.colleagueId !== ev.payload.settings.colleagueId || state.settings.profileId !== ev.payload.settings.profileId) {
+            // Another person: do not alert on the difference with the previous one
+            state.status = null;
+            state.since = null;
+        }
+        state.settings = ev.payload.settings;
+        await this.refreshStatus(ev.action);
+    }
+
+    /**
+     * Refresh the status on demand (and dismiss a running alert)
+     */
+    override async onKeyDown(ev: KeyDownEvent<ColleagueSettings>): Promise<void> {
+        streamDeck.logger.info('Colleague button pressed, refreshing');
+        const state = this.stateFor(ev.action);
+        if (state.alertTimeout) {
+            clearTimeout(state.alertTimeout);
+            state.alertTimeout = null;
+        }
+        this.teamCache.delete(this.apiFor(ev.action).profileId);
+        await this.refreshStatus(ev.action);
+    }
+
+    /**
+     * State of one key, created on first use
+     */
+    private stateFor(action: any): ColleagueKeyState {
+        let state = this.keys.get(action.id);
+        if (!state) {
+            state = { settings: {}, status: null, since: null, refreshInterval: null, displayInterval: null, alertTimeout: null };
+            this.keys.set(action.id, state);
+        }
+        return state;
+    }
+
+    /**
+     * Identifies the watched colleague across keys (same person in another profile is another watch)
+     */
+    private watchKey(settings: ColleagueSettings): string {
+        return `${settings.profileId ?? ''}:${settings.colleagueId ?? ''}`;
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.stateFor(action).settings.profileId);
+    }
+
+    /**
+     * Everyone in the company with their status: the working list plus the offline list
+     */
+    private async loadTeam(api: SesameAPI): Promise<TeamMember[] | null> {
+        const cached = this.teamCache.get(api.profileId);
+        if (cached && Date.now() - cached.fetchedAt < Colleague.TEAM_CACHE_MS) {
+            return cached.members;
+        }
+
+        const workStatus = await api.getWorkStatus();
+        if (!workStatus) {
+            return null;
+        }
+
+        const working = (workStatus.companyId ? await api.getWorkingEmployees(workStatus.companyId) : null)
+            ?? await api.getWhosInOnline();
+        if (!working) {
+            return null;
+        }
+
+        const workingIds = new Set(working.map(member => member.employeeId));
+        const offline = (await api.getWhosInOffline() ?? []).filter(member => !workingIds.has(member.employeeId));
+        const members = [...working, ...offline].filter(member => member.employeeId !== workStatus.employeeId);
+
+        this.teamCache.set(api.profileId, { members, fetchedAt: Date.now() });
+        return members;
+    }
+
+    /**
+     * Look up the colleague, alert on the configured transitions and redraw the key
+     */
+    private async refreshStatus(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const state = this.stateFor(action);
+        const { colleagueId } = state.settings;
+
+        try {
+            if (!colleagueId) {
+                await action.setImage(generateColleagueSVG('Elige', null, 'compañero'));
+                return;
+            }
+
+            const isAuthenticated = await api.performLogin();
+            const members = isAuthenticated ? await this.loadTeam(api) : null;
+            if (!members) {
+                // A transient failure keeps the last known status, so the next lookup can still alert
+                streamDeck.logger.info('Colleague: Team not available for button update');
+                if (!isAuthenticated) {
+                    state.status = null;
+                }
+                this.updateDisplay(action);
+                return;
+            }
+
+            // Colleagues missing from both lists are not working
+            const member = members.find(m => m.employeeId === colleagueId);
+            const status: WorkStatusType = member?.workStatus ?? 'offline';
+            const previous = state.status;
+
+            if (previous !== status) {
+                state.since = this.statusStart(member, status) ?? (previous ? Date.now() : null);
+                streamDeck.logger.info(`Colleague: ${state.settings.colleagueName ?? colleagueId} is ${status} (was ${previous ?? 'unknown'})`);
+            }
+            state.status = status;
+
+            if (previous && previous !== status && this.shouldAlert(state.settings, previous, status)) {
+                await this.showStatusAlert(action);
+                return;
+            }
+
+            this.updateDisplay(action);
+
+        } catch (error) {
+            streamDeck.logger.error('Colleague: Error updating button state:', error);
+            this.updateDisplay(action);
+        }
+    }
+
+    /**
+     * When the colleague entered their current status, according to Sesame
+     */
+    private statusStart(member: TeamMember | undefined, status: WorkStatusType): number | null {
+        const date = status === 'paused'
+            ? member?.pauseStartTime
+            : status === 'online' ? member?.checkInTime : member?.checkOutTime;
+        const time = date ? new Date(date).getTime() : NaN;
+        return Number.isNaN(time) ? null : time;
+    }
+
+    /**
+     * Alert when the colleague comes online, or when they return from a break, as configured
+     */
+    private shouldAlert(settings: ColleagueSettings, previous: WorkStatusType, current: WorkStatusType): boolean {
+        if (current !== 'online') {
+            return false;
+        }
+        return previous === 'paused' ? settings.alertOnBreakEnd !== false : settings.alertOnOnline !== false;
+    }
+
+    /**
+     * Highlight the key for a few seconds
+     */
+    private async showStatusAlert(action: any): Promise<void> {
+        const state = this.stateFor(action);
+        streamDeck.logger.info(`Colleague: Alerting, ${state.settings.colleagueName ?? state.settings.colleagueId} is back`);
+
+        if (state.alertTimeout) {
+            clearTimeout(state.alertTimeout);
+        }
+        state.alertTimeout = setTimeout(() => {
+            state.alertTimeout = null;
+            this.updateDisplay(action);
+        }, Colleague.ALERT_DURATION_MS);
+
+        await action.setImage(generateColleagueSVG(shortName(state.settings.colleagueName ?? ''), state.status, '¡Disponible!', true));
+        await action.showOk();
+    }
+
+    /**
+     * Redraw the key from the cached status (no API calls)
+     */
+    private updateDisplay(action: any): void {
+        const state = this.stateFor(action);
+        if (state.alertTimeout || !state.settings.colleagueId) {
+            return;
+        }
+
+        const elapsed = state.since !== null ? Math.max(0, Math.floor((Date.now() - state.since) / 1000)) : null;
+        const duration = state.status && elapsed !== null ? formatDuration(elapsed) : '';
+        action.setImage(generateColleagueSVG(shortName(state.settings.colleagueName ?? ''), state.status, duration));
+    }
+
+    /**
+     * Handle messages from property inspector (login form and colleague list)
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, ColleagueSettings>): Promise<void> {
+        const { payload } = ev;
+        const api = this.apiFor(ev.action);
+
+        if (payload.event === 'login') {
+            const { email, password, rememberPassword } = payload;
+
+            if (!email || !password) {
+                await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
+                return;
+            }
+
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
+
+            if (result.ok) {
+                await this.refreshStatus(ev.action);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.refreshStatus(ev.action));
+            }
+        } else if (payload.event === 'logout') {
+            await api.logout();
+            await this.refreshStatus(ev.action);
+        } else if (payload.event === 'loadColleagues') {
+            const members = await this.loadTeam(api);
+            streamDeck.logger.info(`Colleague: Sending ${members?.length ?? 0} colleagues to property inspector`);
+            await (ev.action as any).sendToPropertyInspector({
+                event: 'colleaguesLoaded',
+                success: members !== null,
+                colleagues: (members ?? [])
+                    .map(member => ({ employeeId: member.employeeId, fullName: member.fullName, workStatus: member.workStatus }))
+                    .sort((a, b) => a.fullName.localeCompare(b.fullName))
+            });
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+}
+
+/**
+ * Settings for {@link Colleague}.
+ */
+type ColleagueSettings = {
+    profileId?: string; // Sesame profile whose company is searched (default profile when unset)
+    colleagueId?: string; // Employee id of the watched colleague
+    colleagueName?: string;
+    alertOnOnline?: boolean; // Alert when they check in (default on)
+    alertOnBreakEnd?: boolean; // Alert when they return from a break (default on)
+};
+
+/**
+ * Watch state of one {@link Colleague} key.
+ */
+type ColleagueKeyState = {
+    settings: ColleagueSettings;
+    status: WorkStatusType | null; // Last seen status, null until the first successful lookup
+    since: number | null; // Epoch millis when the colleague entered that status
+    refreshInterval: NodeJS.Timeout | null;
+    displayInterval: NodeJS.Timeout | null;
+    alertTimeout: NodeJS.Timeout | null; // Running alert highlight
+};
@@ -0,0 +1,255 @@
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import streamDeck from "@elgato/streamdeck";
+import { SesameAPI } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { buildTimesheet, defaultExportFolder, ExportFormat, writeTimesheet } from "../services/timesheet-export";
+import { calendarCoverage, checksToEvents, updateCalendarFile } from "../services/calendar-export";
+import { describeError, showButtonError } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
+
+/**
+ * Date ranges a key press can export, with their key titles.
+ */
+const RANGES: Record<ExportRange, string> = {
+    'this-week': 'Semana',
+    'last-week': 'Sem. pasada',
+    'this-month': 'Mes',
+    'last-month': 'Mes pasado',
+};
+
+/**
+ * Generate an SVG image with a download arrow, the exported range and the file format
+ */
+function generateExportSVG(rangeLabel: string, format: KeyFormat, busy = false): string {
+    const iconColor = busy ? "#64748b" : "#38bdf8";
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="#1e293b"/>
+            <path d="M72 24 V70 M52 52 L72 72 L92 52" stroke="${iconColor}" stroke-width="10" stroke-linecap="round" stroke-linejoin="round" fill="none"/>
+            <rect x="42" y="82" width="60" height="8" rx="4" fill="${iconColor}"/>
+            <text x="72" y="114" font-family="Arial, sans-serif" font-size="16" fill="#FFFFFF" text-anchor="middle">${rangeLabel}</text>
+            <text x="72" y="132" font-family="Arial, sans-serif" font-size="13" fill="#94a3b8" text-anchor="middle">${busy ? 'Exportando...' : format.toUpperCase()}</text>
+        </svg>
+    `)}`;
+}
+
+/**
+ * First and last day (YYYY-MM-DD) of a range; weeks start on Monday
+ */
+function rangeDates(range: ExportRange, now: Date = new Date()): { from: string; to: string } {
+    const format = (date: Date) => new Intl.DateTimeFormat('en-CA').format(date);
+    const start = new Date(now);
+    const end = new Date(now);
+
+    if (range === 'this-week' || range === 'last-week') {
+        start.setDate(now.getDate() - ((now.getDay() + 6) % 7));
+        if (range === 'last-week') {
+            start.setDate(start.getDate() - 7);
+            end.setTime(start.getTime());
+            end.setDate(start.getDate() + 6);
+        }
+    } else {
+        start.setDate(1);
+        if (range === 'last-month') {
+            start.setMonth(start.getMonth() - 1);
+            end.setDate(0); // Last day of the previous month
+        }
+    }
+
+    return { from: format(start), to: format(end) };
+}
+
+/**
+ * Action that writes the checks and daily totals of a date range to a CSV or JSON file,
+ * or keeps a rolling iCalendar file of work sessions and breaks up to date
+ */
+@action({ UUID: "com.pablo-magaa.sesamecheck.export" })
+export class Export extends SingletonAction<ExportSettings> {
+    private static readonly DEFAULT_CALENDAR_DAYS = 30;
+
+    private readonly keySettings: Map<string, ExportSettings> = new Map(); // Profile, range and format of each key
+
+    /**
+     * Show the range and format the key exports
+     */
+    override async onWillAppear(ev: WillAppearEvent<ExportSettings>): Promise<void> {
+        this.keySettings.set(ev.action.id, ev.payload.settings);
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Forget the key settings
+     */
+    override onWillDisappear(ev: WillDisappearEvent<ExportSettings>): void {
+        this.keySettings.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile, range, format and folder chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<ExportSettings>): Promise<void> {
+        this.keySettings.set(ev.action.id, ev.payload.settings);
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Export the key's range, or update its calendar
+     */
+    override async onKeyDown(ev: KeyDownEvent<ExportSettings>): Promise<void> {
+        const settings = this.keySettings.get(ev.action.id) ?? {};
+        const { from, to } = rangeDates(settings.range ?? 'this-week');
+        const file = await this.runExport(ev.action, from, to);
+        if (file) {
+            await ev.action.showOk();
+        }
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.keySettings.get(action.id)?.profileId);
+    }
+
+    /**
+     * Handle messages from property inspector (login form)
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, ExportSettings>): Promise<void> {
+        const { payload } = ev;
+        const api = this.apiFor(ev.action);
+
+        if (payload.event === 'login') {
+            const { email, password, rememberPassword } = payload;
+
+            if (!email || !password) {
+                await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
+                return;
+            }
+
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
+
+            if (result.ok) {
+                await this.updateButtonState(ev.action);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
+            }
+        } else if (payload.event === 'logout') {
+            await api.logout();
+            await this.updateButtonState(ev.action);
+        } else if (payload.event === 'exportTimesheet') {
+            const range = payload.from && payload.to ? { from: payload.from, to: payload.to } : rangeDates(payload.range ?? 'this-week');
+            await this.runExport(ev.action, range.from, range.to);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+
+    /**
+     * Write the timesheet of a date range, or update the calendar (which ignores the range).
+     * Returns the file path, or null on failure (the property inspector, if open, is told either way).
+     */
+    private async runExport(action: any, from: string, to: string): Promise<string | null> {
+        const api = this.apiFor(action);
+        const settings = this.keySettings.get(action.id) ?? {};
+
+        try {
+            await action.setImage(generateExportSVG(this.keyLabel(settings), settings.format ?? 'csv', true));
+
+            const isAuthenticated = await api.performLogin();
+            const workStatus = isAuthenticated ? await api.getWorkStatus() : null;
+            if (!workStatus) {
+                throw new Error('Not logged in to Sesame');
+            }
+
+            const file = settings.format === 'ics'
+                ? await this.writeCalendar(api, workStatus.employeeId, settings)
+                : await this.writeTimesheetFile(api, workStatus.employeeId, from, to, settings);
+            await action.sendToPropertyInspector({ event: 'exportResult', success: true, file }).catch(() => {});
+            await this.updateButtonState(action);
+            return file;
+
+        } catch (error) {
+            streamDeck.logger.error('Export: Error exporting timesheet:', error);
+            const message = error instanceof Error ? error.message : String(error);
+            await action.sendToPropertyInspector({ event: 'exportResult', success: false, error: message }).catch(() => {});
+            await showButtonError(action, 'Error al exportar', () => this.updateButtonState(action));
+            return null;
+        }
+    }
+
+    /**
+     * Fetch the checks and daily stats of a date range and write them as CSV or JSON
+     */
+    private async writeTimesheetFile(api: SesameAPI, employeeId: string, from: string, to: string, settings: ExportSettings): Promise<string> {
+        const checks = await api.getDailyChecks(employeeId, from, to);
+        const stats = await api.getDailyComputedHourStatsByDay(employeeId, from, to);
+        if (!checks || !stats) {
+            throw new Error('Could not load the checks');
+        }
+
+        const format = settings.format === 'json' ? 'json' : 'csv';
+        const file = await writeTimesheet(buildTimesheet(from, to, checks, stats), format, settings.folder || defaultExportFolder());
+        streamDeck.logger.info(`Export: ${checks.length} checks from ${from} to ${to} written to ${file}`);
+        return file;
+    }
+
+    /**
+     * Update the rolling calendar: only the days since the last one in the file are fetched again
+     * (that day may have been incomplete), and days that left the window are dropped. A window that
+     * grew since the file was written is fetched whole.
+     */
+    private async writeCalendar(api: SesameAPI, employeeId: string, settings: ExportSettings): Promise<string> {
+        const format = (date: Date) => new Intl.DateTimeFormat('en-CA').format(date);
+        const folder = settings.folder || defaultExportFolder();
+        const windowStart = new Date();
+        windowStart.setDate(windowStart.getDate() - (settings.calendarDays || Export.DEFAULT_CALENDAR_DAYS) + 1);
+
+        const keepFrom = format(windowStart);
+        const today = format(new Date());
+        const coverage = await calendarCoverage(folder);
+        const lastDate = coverage && coverage.from <= keepFrom ? coverage.last : null;
+        const refreshFrom = lastDate && lastDate > keepFrom ? (lastDate < today ? lastDate : today) : keepFrom;
+
+        const checks = await api.getDailyChecks(employeeId, refreshFrom, today);
+        if (!checks) {
+            throw new Error('Could not load the checks');
+        }
+
+        const file = await updateCalendarFile(folder, checksToEvents(checks), refreshFrom, keepFrom);
+        streamDeck.logger.info(`Export: Calendar refreshed from ${refreshFrom} (window from ${keepFrom}, ${checks.length} checks) in ${file}`);
+        return file;
+    }
+
+    /**
+     * Range title of the key, or the calendar window
+     */
+    private keyLabel(settings: ExportSettings): string {
+        return settings.format === 'ics'
+            ? `${settings.calendarDays || Export.DEFAULT_CALENDAR_DAYS} días`
+            : RANGES[settings.range ?? 'this-week'];
+    }
+
+    /**
+     * Draw the key for its current settings
+     */
+    private async updateButtonState(action: any): Promise<void> {
+        const settings = this.keySettings.get(action.id) ?? {};
+        await action.setImage(generateExportSVG(this.keyLabel(settings), settings.format ?? 'csv'));
+    }
+}
+
+type ExportRange = 'this-week' | 'last-week' | 'this-month' | 'last-month';
+
+type KeyFormat = ExportFormat | 'ics';
+
+/**
+ * Settings for {@link Export}.
+ */
+type ExportSettings = {
+    profileId?: string; // Sesame profile to export (default profile when unset)
+    range?: ExportRange; // Exported on a key press (this week when unset)
+    format?: KeyFormat; // CSV when unset
+    calendarDays?: number; // Days kept in the .ics file, up to today (30 when unset)
+    folder?: string; // Destination folder (Downloads when unset)
+};
@@ -1,12 +1,18 @@
-import { action, KeyDownEvent, SingletonAction, WillAppearEvent, SendToPluginEvent, PropertyInspectorDidAppearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, PropertyInspectorDidAppearEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
 import streamDeck from "@elgato/streamdeck";
-import { sesameAPI, WorkBreak } from "../services/sesame-api";
-import { showButtonError } from "../utils/error-display";
+import { EmployeeCheck, SesameAPI, WorkBreak, WorkStatus } from "../services/sesame-api";
+import { allowedBreakSeconds } from "../services/break-overruns";
+import { breakWindowPhase, isBreakTaken } from "../services/break-schedule";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { PunchConflict } from "../services/punch-outbox";
+import { ConflictError, NetworkError } from "../services/sesame-errors";
+import { describeError, escapeXml, pendingBadgeSVG, showButtonError, showPendingPunch } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
 
 /**
  * Generate an SVG image with pause icon (two orange bars) or hamburger icon for food breaks
  */
-function generatePauseSVG(breakName: string, enabled: boolean): string {
+function generatePauseSVG(breakName: string, enabled: boolean, pendingCount = 0): string {
     const bgColor = "#1e293b"; // Dark blue-gray background
     const iconColor = enabled ? "#f97316" : "#374151"; // Orange when enabled, gray when disabled
 
@@ -38,6 +44,7 @@ function generatePauseSVG(breakName: string, enabled: boolean): string {
                 <!-- Bottom bun -->
                 <rect x="37" y="83" width="70" height="10" fill="${iconColor}"/>
                 <ellipse cx="72" cy="93" rx="35" ry="8" fill="${iconColor}"/>
+                ${pendingBadgeSVG(pendingCount)}
             </svg>
         `)}`;
     } else {
@@ -47,21 +54,62 @@ function generatePauseSVG(breakName: string, enabled: boolean): string {
                 <rect width="144" height="144" fill="${bgColor}"/>
                 <rect x="47" y="42" width="18" height="60" rx="9" fill="${iconColor}"/>
                 <rect x="79" y="42" width="18" height="60" rx="9" fill="${iconColor}"/>
+                ${pendingBadgeSVG(pendingCount)}
             </svg>
         `)}`;
     }
 }
 
+/**
+ * Generate an SVG image with the time left of the active break, or the overrun in red once it is exceeded
+ */
+function generateBreakCountdownSVG(breakName: string, remainingSeconds: number): string {
+    const overrun = remainingSeconds < 0;
+    const bgColor = overrun ? "#b91c1c" : "#1e293b";
+    const seconds = Math.abs(remainingSeconds);
+    const minutes = Math.floor(seconds / 60);
+    const time = `${overrun ? '+' : ''}${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="${bgColor}"/>
+            <text x="72" y="36" font-family="Arial, sans-serif" font-size="16" fill="#FFFFFF" text-anchor="middle">${escapeXml(breakName.slice(0, 14))}</text>
+            <text x="72" y="88" font-family="Arial, sans-serif" font-size="38" font-weight="bold" fill="${overrun ? '#FFFFFF' : '#f97316'}" text-anchor="middle">${time}</text>
+            <text x="72" y="122" font-family="Arial, sans-serif" font-size="15" fill="#FFFFFF" text-anchor="middle">${overrun ? 'Te has pasado' : 'Quedan'}</text>
+        </svg>
+    `)}`;
+}
+
+/**
+ * Generate an SVG image for a scheduled break reminder; `lit` alternates to make the key flash
+ */
+function generateBreakReminderSVG(workBreak: WorkBreak, message: string, color: string, lit: boolean): string {
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="${lit ? color : '#1e293b'}"/>
+            <text x="72" y="40" font-family="Arial, sans-serif" font-size="18" fill="#FFFFFF" text-anchor="middle">${escapeXml(workBreak.name.slice(0, 14))}</text>
+            <text x="72" y="82" font-family="Arial, sans-serif" font-size="22" font-weight="bold" fill="${lit ? '#FFFFFF' : color}" text-anchor="middle">${message}</text>
+            <text x="72" y="118" font-family="Arial, sans-serif" font-size="15" fill="#cbd5e1" text-anchor="middle">${workBreak.startTime}-${workBreak.endTime}</text>
+        </svg>
+    `)}`;
+}
+
 /**
  * Action for pausing work with selectable break types
  */
 @action({ UUID: "com.pablo-magaa.sesamecheck.pause" })
 export class Pause extends SingletonAction<PauseSettings> {
     private readonly actionInstances: Set<any> = new Set();
-    private statusChangeListener: (() => void) | null = null;
+    private readonly profileIds: Map<string, string | undefined> = new Map();
+    private readonly selectedBreakIds: Map<string, string | undefined> = new Map(); // Break of each key
+    private readonly countdowns: Map<string, BreakCountdown> = new Map(); // Keys whose break is active
+    private readonly reminders: Map<string, BreakReminder> = new Map(); // Schedule tracking of each key
+    private static readonly SCHEDULE_CHECK_MS = 30000;
+    private static readonly REMINDER_FLASH_MS = 10000;
+    private statusChangeListener: ((profileId: string) => void) | null = null;
+    private punchConflictListener: ((conflict: PunchConflict, profileId: string) => void) | null = null;
     private currentSettings: PauseSettings = {};
-    private workBreaksCache: WorkBreak[] | null = null;
-    private lastWorkBreaksFetch: number = 0;
+    private readonly workBreaksCache: Map<string, { workBreaks: WorkBreak[]; fetchedAt: number }> = new Map(); // Per profile
     private readonly WORK_BREAKS_CACHE_DURATION = 300000; // 5 minutes cache
 
     constructor() {
@@ -74,6 +122,10 @@ export class Pause extends SingletonAction<PauseSettings> {
      */
     override async onWillAppear(ev: WillAppearEvent<PauseSettings>): Promise<void> {
         this.actionInstances.add(ev.action);
+        this.profileIds.set(ev.action.id, ev.payload.settings?.profileId);
+        this.selectedBreakIds.set(ev.action.id, ev.payload.settings?.selectedWorkBreakId);
+        const api = this.apiFor(ev.action);
+        api.polling.keyAppeared();
         this.currentSettings = ev.payload.settings || {};
         streamDeck.logger.info('Pause: onWillAppear - Current settings:', JSON.stringify(this.currentSettings));
         
@@ -82,21 +134,34 @@ export class Pause extends SingletonAction<PauseSettings> {
             streamDeck.logger.info(`Pause: Found saved break selection: "${this.currentSettings.selectedWorkBreakName}" (${this.currentSettings.selectedWorkBreakId})`);
         }
         
+        // Watch the scheduled window of this key's break (registered before any await, so that
+        // a key that disappears meanwhile still has its interval cleared)
+        this.stopReminder(ev.action);
+        this.reminders.set(ev.action.id, {
+            remindBreaks: ev.payload.settings?.remindBreaks !== false,
+            date: null, sawOpen: false, reminded: false, warned: false,
+            checkInterval: setInterval(() => {
+                this.checkBreakSchedule(ev.action).catch(error => {
+                    streamDeck.logger.error('Pause: Error checking break schedule:', error);
+                });
+            }, Pause.SCHEDULE_CHECK_MS),
+            flashInterval: null
+        });
+
         await this.updateButtonState(ev.action);
         
         // Preload work breaks in cache if authenticated (for faster PI loading)
-        const isAuthenticated = await sesameAPI.isAuthenticated();
+        const isAuthenticated = await api.isAuthenticated();
         if (isAuthenticated) {
             streamDeck.logger.info('Pause: Action loaded with valid token, preloading work breaks cache...');
             
             // Load work breaks silently in background to populate cache
             try {
-                const workStatus = await sesameAPI.getWorkStatus();
+                const workStatus = await api.getWorkStatus();
                 if (workStatus) {
-                    const workBreaks = await sesameAPI.getAllWorkBreaks(workStatus.employeeId);
+                    const workBreaks = await api.getAllWorkBreaks(workStatus.employeeId);
                     if (workBreaks && workBreaks.length > 0) {
-                        this.workBreaksCache = workBreaks;
-                        this.lastWorkBreaksFetch = Date.now();
+                        this.workBreaksCache.set(api.profileId, { workBreaks, fetchedAt: Date.now() });
                         streamDeck.logger.info(`Pause: Preloaded ${workBreaks.length} work breaks in cache`);
                     }
                 }
@@ -109,19 +174,57 @@ export class Pause extends SingletonAction<PauseSettings> {
 
         // Register listener for status changes (only once for all instances)
         if (!this.statusChangeListener) {
-            this.statusChangeListener = () => {
-                streamDeck.logger.info('Pause: Status change detected, updating all buttons');
-                this.updateAllButtons();
+            this.statusChangeListener = (profileId) => {
+                streamDeck.logger.info(`Pause: Status change detected for profile ${profileId}, updating its buttons`);
+                this.updateAllButtons(profileId);
+            };
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
+        }
+
+        // Report queued pauses that Sesame no longer accepts
+        if (!this.punchConflictListener) {
+            this.punchConflictListener = (conflict, profileId) => {
+                if (conflict.punch.kind !== 'pause') {
+                    return;
+                }
+                for (const action of this.actionInstances) {
+                    if (this.apiFor(action).profileId !== profileId) {
+                        continue;
+                    }
+                    showButtonError(action, new ConflictError(conflict.reason), () => this.updateButtonState(action)).catch(() => {});
+                }
             };
-            sesameAPI.addStatusChangeListener(this.statusChangeListener);
+            sesameProfiles.addPunchConflictListener(this.punchConflictListener);
         }
     }
 
     /**
-     * Update all button instances
+     * Forget the instance and let polling idle when no key is visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<PauseSettings>): void {
+        this.actionInstances.delete(ev.action);
+        this.apiFor(ev.action).polling.keyDisappeared();
+        this.stopCountdown(ev.action);
+        this.stopReminder(ev.action);
+        this.profileIds.delete(ev.action.id);
+        this.selectedBreakIds.delete(ev.action.id);
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.profileIds.get(action.id));
+    }
+
+    /**
+     * Update all button instances bound to a profile
      */
-    private updateAllButtons(): void {
+    private updateAllButtons(profileId: string): void {
         for (const action of this.actionInstances) {
+            if (this.apiFor(action).profileId !== profileId) {
+                continue;
+            }
             this.updateButtonState(action).catch(error => {
                 streamDeck.logger.error('Pause: Error updating button:', error);
             });
@@ -133,9 +236,10 @@ export class Pause extends SingletonAction<PauseSettings> {
      */
     override async onPropertyInspectorDidAppear(ev: PropertyInspectorDidAppearEvent<PauseSettings>): Promise<void> {
         streamDeck.logger.info('Pause: Property Inspector appeared, checking authentication...');
+        const api = this.apiFor(ev.action);
         
         // Check if user is authenticated
-        const isAuthenticated = await sesameAPI.isAuthenticated();
+        const isAuthenticated = await api.isAuthenticated();
         if (isAuthenticated) {
             streamDeck.logger.info('Pause: User is authenticated, loading work breaks automatically...');
             await this.loadWorkBreaks(ev.action);
@@ -148,22 +252,30 @@ export class Pause extends SingletonAction<PauseSettings> {
      * Handle pause action
      */
     override async onKeyDown(ev: KeyDownEvent<PauseSettings>): Promise<void> {
+        const api = this.apiFor(ev.action);
+        this.stopReminderFlash(ev.action);
         try {
             // Ensure authentication (auto-login if needed)
             streamDeck.logger.info('Pause: Starting authentication process');
-            const isAuthenticated = await sesameAPI.performLogin();
+            const auth = await api.authenticate();
 
-            if (!isAuthenticated) {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Auth failed', () => this.updateButtonState(ev.action));
+            if (!auth.ok) {
+                await showButtonError(ev.action, auth.error, () => this.updateButtonState(ev.action));
                 return;
             }
 
-            const workStatus = await sesameAPI.getWorkStatus();
-            if (!workStatus) {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Status error', () => this.updateButtonState(ev.action));
+            const status = await api.fetchWorkStatus();
+            if (!status.ok) {
+                if (status.error.kind === 'network') {
+                    await this.queueOfflinePunch(ev.action, ev.payload.settings?.selectedWorkBreakId, ev.payload.settings?.coordinatePresetId);
+                    return;
+                }
+                await showButtonError(ev.action, status.error, () => this.updateButtonState(ev.action));
                 return;
             }
 
+            const workStatus = status.value;
+
             if (workStatus.workStatus !== 'online') {
                 await this.updateButtonState(ev.action);
                 return;
@@ -176,11 +288,14 @@ export class Pause extends SingletonAction<PauseSettings> {
                 return;
             }
 
-            const result = await sesameAPI.pause(workStatus.employeeId, selectedBreakId);
-            if (result) {
+            const coordinates = await api.resolvePunchCoordinates(ev.payload.settings?.coordinatePresetId);
+            const result = await api.pause(workStatus.employeeId, selectedBreakId, { coordinates, actionUUID: ev.action.manifestId });
+            if (result.ok) {
                 setTimeout(() => { this.updateButtonState(ev.action).catch(() => {}); }, 1000);
+            } else if (result.error.kind === 'network') {
+                await this.queueOfflinePunch(ev.action, selectedBreakId, ev.payload.settings?.coordinatePresetId);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Pause failed', () => this.updateButtonState(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
             }
 
         } catch (error) {
@@ -188,34 +303,53 @@ export class Pause extends SingletonAction<PauseSettings> {
         }
     }
 
+    /**
+     * Save the pause in the offline outbox when Sesame cannot be reached
+     */
+    private async queueOfflinePunch(action: any, workBreakId: string | undefined, coordinatePresetId?: string): Promise<void> {
+        const api = this.apiFor(action);
+        if (!workBreakId) {
+            await showButtonError(action, 'No break selected', () => this.updateButtonState(action));
+            return;
+        }
+
+        const punch = await api.queuePunch('pause', { workBreakId, coordinates: await api.resolvePunchCoordinates(coordinatePresetId) });
+        if (punch) {
+            await showPendingPunch(action, api.pendingPunchCount, () => this.updateButtonState(action));
+        } else {
+            await showButtonError(action, new NetworkError(), () => this.updateButtonState(action));
+        }
+    }
+
     /**
      * Handle messages from property inspector (login form and break selection)
      */
     override async onSendToPlugin(ev: SendToPluginEvent<any, PauseSettings>): Promise<void> {
         const { payload } = ev;
+        const api = this.apiFor(ev.action);
         
         streamDeck.logger.info('Pause: Received message from Property Inspector:', JSON.stringify(payload));
         
         if (payload.event === 'login') {
-            const { email, password } = payload;
+            const { email, password, rememberPassword } = payload;
 
             if (!email || !password) {
                 await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
                 return;
             }
 
-            const success = await sesameAPI.performLogin(email, password);
-            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success, error: sesameAPI.lastError });
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
 
-            if (success) {
+            if (result.ok) {
                 await this.updateButtonState(ev.action);
                 await this.loadWorkBreaks(ev.action);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Login failed', () => this.updateButtonState(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
             }
         } else if (payload.event === 'logout') {
             streamDeck.logger.info('Pause: Processing logout from property inspector');
-            await sesameAPI.logout();
+            await api.logout();
             await this.updateButtonState(ev.action);
         } else if (payload.event === 'loadWorkBreaks') {
             streamDeck.logger.info('Pause: Loading work breaks requested from property inspector');
@@ -236,15 +370,21 @@ export class Pause extends SingletonAction<PauseSettings> {
             streamDeck.logger.info(`Pause: Updated settings:`, JSON.stringify(this.currentSettings));
             
             // Save the selected work break to settings
+            this.selectedBreakIds.set(ev.action.id, workBreakId);
             await ev.action.setSettings(this.currentSettings);
             streamDeck.logger.info(`Pause: Settings saved to action`);
 
             // Update button icon to show selected break immediately
             streamDeck.logger.info(`Pause: About to update button state with break: ${workBreakName}`);
             await this.updateButtonState(ev.action);
+        } else if (payload.event === 'selectEmployee') {
+            // Breaks are defined per company: reload them for the new employee record
+            await api.selectEmployee(payload.employeeId);
+            this.workBreaksCache.delete(api.profileId);
+            await this.loadWorkBreaks(ev.action);
         } else if (payload.event === 'testMessage') {
             streamDeck.logger.info('Pause: Received test message from Property Inspector:', payload.message);
-        } else {
+        } else if (!(await handleProfileMessage(ev.action, payload, api))) {
             streamDeck.logger.warn('Pause: Unknown event from Property Inspector:', payload.event);
         }
     }
@@ -258,6 +398,25 @@ export class Pause extends SingletonAction<PauseSettings> {
         // Update current settings
         this.currentSettings = ev.payload.settings || {};
 
+        // Follow the profile chosen in the property inspector
+        const previous = this.apiFor(ev.action);
+        this.profileIds.set(ev.action.id, this.currentSettings.profileId);
+        const breakChanged = this.selectedBreakIds.get(ev.action.id) !== this.currentSettings.selectedWorkBreakId;
+        this.selectedBreakIds.set(ev.action.id, this.currentSettings.selectedWorkBreakId);
+        const reminder = this.reminders.get(ev.action.id);
+        if (reminder) {
+            reminder.remindBreaks = this.currentSettings.remindBreaks !== false;
+            if (breakChanged) {
+                reminder.date = null;
+            }
+        }
+        const current = this.apiFor(ev.action);
+        if (current !== previous) {
+            previous.polling.keyDisappeared();
+            current.polling.keyAppeared();
+            await this.loadWorkBreaks(ev.action);
+        }
+
         // Update button icon based on settings
         if (this.currentSettings.selectedWorkBreakName && this.currentSettings.selectedWorkBreakId) {
             streamDeck.logger.info(`Pause: Updating button icon from settings: ${this.currentSettings.selectedWorkBreakName}`);
@@ -273,14 +432,16 @@ export class Pause extends SingletonAction<PauseSettings> {
     private async loadWorkBreaks(action: any): Promise<void> {
         try {
             streamDeck.logger.info('Pause: Starting loadWorkBreaks...');
+            const api = this.apiFor(action);
             
             // Check cache first
             const now = Date.now();
-            if (this.workBreaksCache && (now - this.lastWorkBreaksFetch) < this.WORK_BREAKS_CACHE_DURATION) {
-                streamDeck.logger.info(`Pause: Using cached work breaks (${this.workBreaksCache.length} items)`);
+            const cached = this.workBreaksCache.get(api.profileId);
+            if (cached && (now - cached.fetchedAt) < this.WORK_BREAKS_CACHE_DURATION) {
+                streamDeck.logger.info(`Pause: Using cached work breaks (${cached.workBreaks.length} items)`);
                 const payload = {
                     event: 'workBreaksLoaded',
-                    workBreaks: this.workBreaksCache
+                    workBreaks: cached.workBreaks
                 };
                 // Try different ways to send to property inspector
                 if (typeof action.sendToPropertyInspector === 'function') {
@@ -294,21 +455,20 @@ export class Pause extends SingletonAction<PauseSettings> {
                 return;
             }
             
-            const workStatus = await sesameAPI.getWorkStatus();
+            const workStatus = await api.getWorkStatus();
             if (!workStatus) {
                 streamDeck.logger.error('Pause: Cannot load work breaks - no work status');
                 return;
             }
 
             streamDeck.logger.info(`Pause: Got work status, employee ID: ${workStatus.employeeId}`);
-            const workBreaks = await sesameAPI.getAllWorkBreaks(workStatus.employeeId);
+            const workBreaks = await api.getAllWorkBreaks(workStatus.employeeId);
             
             if (workBreaks && workBreaks.length > 0) {
                 streamDeck.logger.info(`Pause: Successfully loaded ${workBreaks.length} work breaks`);
                 
                 // Cache the work breaks
-                this.workBreaksCache = workBreaks;
-                this.lastWorkBreaksFetch = now;
+                this.workBreaksCache.set(api.profileId, { workBreaks, fetchedAt: now });
                 streamDeck.logger.info('Pause: Work breaks cached for 5 minutes');
                 
                 // Log the work breaks being sent
@@ -322,13 +482,13 @@ export class Pause extends SingletonAction<PauseSettings> {
                     event: 'workBreaksLoaded',
                     workBreaks: workBreaks
                 };
-                streamDeck.logger.info('Pause: Storing work breaks in global settings');
-                // Store work breaks in global settings for Property Inspector to access
-                const globalSettings = await streamDeck.settings.getGlobalSettings();
-                globalSettings.availableWorkBreaks = JSON.parse(JSON.stringify(workBreaks)); // Convert to JSON-compatible format
-                globalSettings.workBreaksLastUpdated = now;
-                await streamDeck.settings.setGlobalSettings(globalSettings);
-                streamDeck.logger.info('Pause: Work breaks stored in global settings successfully');
+                streamDeck.logger.info('Pause: Storing work breaks in profile settings');
+                // Store work breaks in the profile settings for Property Inspector to access
+                await api.saveSettings({
+                    availableWorkBreaks: JSON.parse(JSON.stringify(workBreaks)), // Convert to JSON-compatible format
+                    workBreaksLastUpdated: now
+                });
+                streamDeck.logger.info('Pause: Work breaks stored in profile settings successfully');
             } else {
                 streamDeck.logger.error('Pause: No work breaks found or failed to load');
                 
@@ -360,10 +520,165 @@ export class Pause extends SingletonAction<PauseSettings> {
         }
     }
 
+    /**
+     * The open pause check while paused, from today's checks. Overruns are not stored: the
+     * check history reports them from the checks themselves.
+     */
+    private async findActivePause(action: any, workStatus: WorkStatus): Promise<EmployeeCheck | null> {
+        if (workStatus.workStatus !== 'paused') {
+            return null;
+        }
+
+        const checks = await this.apiFor(action).getTodayChecks(workStatus.employeeId);
+        if (!checks) {
+            return null;
+        }
+        return checks.find(check => typeof check.checkType === 'string' && check.checkType.toLowerCase() === 'pause' && !check.checkOut) ?? null;
+    }
+
+    /**
+     * Redraw the remaining break time every second (no API calls)
+     */
+    private startCountdown(action: any, countdown: Omit<BreakCountdown, 'interval'>): void {
+        this.stopCountdown(action);
+        if (!this.actionInstances.has(action)) {
+            return; // The key disappeared while its status was loading
+        }
+
+        const draw = () => {
+            const elapsed = Math.floor((Date.now() - countdown.pauseStart) / 1000);
+            action.setImage(generateBreakCountdownSVG(countdown.breakName, countdown.allowedSeconds - elapsed));
+        };
+        this.countdowns.set(action.id, { ...countdown, interval: setInterval(draw, 1000) });
+        streamDeck.logger.info(`Pause: Counting down "${countdown.breakName}" (${countdown.allowedSeconds}s allowed)`);
+        draw();
+    }
+
+    private stopCountdown(action: any): void {
+        const countdown = this.countdowns.get(action.id);
+        if (countdown) {
+            clearInterval(countdown.interval);
+            this.countdowns.delete(action.id);
+        }
+    }
+
+    /**
+     * Remind once a day, while online, when the window of this key's break opens,
+     * and warn when it closes without the break having been taken.
+     */
+    private async checkBreakSchedule(action: any): Promise<void> {
+        const reminder = this.reminders.get(action.id);
+        const workBreakId = this.selectedBreakIds.get(action.id);
+        if (!reminder || !reminder.remindBreaks || !workBreakId) {
+            return;
+        }
+
+        const today = new Intl.DateTimeFormat('en-CA').format(new Date());
+        if (reminder.date !== today) {
+            Object.assign(reminder, { date: today, sawOpen: false, reminded: false, warned: false });
+        }
+
+        const api = this.apiFor(action);
+        const workStatus = await api.getWorkStatus();
+        if (!workStatus) {
+            return;
+        }
+
+        // Automatic breaks are applied by Sesame itself
+        const workBreak = (await this.workBreaksFor(api, workStatus.employeeId)).find(wb => wb.id === workBreakId);
+        if (!workBreak || workBreak.automatic) {
+            return;
+        }
+
+        const phase = breakWindowPhase(workBreak);
+        if (phase === 'open') {
+            reminder.sawOpen = true;
+            if (reminder.reminded || workStatus.workStatus !== 'online') {
+                return;
+            }
+            reminder.reminded = true;
+            const checks = await api.getTodayChecks(workStatus.employeeId);
+            if (checks && !isBreakTaken(workBreakId, checks)) {
+                streamDeck.logger.info(`Pause: Scheduled break "${workBreak.name}" window is open`);
+                this.flashReminder(action, workBreak, 'Es la hora', '#f97316');
+            }
+        } else if (phase === 'closed' && reminder.sawOpen && !reminder.warned) {
+            // Only warn when the window was seen open, not on a late start of the plugin
+            reminder.warned = true;
+            if (workStatus.workStatus === 'offline') {
+                return;
+            }
+            const checks = await api.getTodayChecks(workStatus.employeeId);
+            if (checks && !isBreakTaken(workBreakId, checks)) {
+                streamDeck.logger.info(`Pause: Scheduled break "${workBreak.name}" was not taken`);
+                this.flashReminder(action, workBreak, 'No tomado', '#dc2626');
+            }
+        }
+    }
+
+    /**
+     * Work breaks of the profile, from the cache when fresh
+     */
+    private async workBreaksFor(api: SesameAPI, employeeId: string): Promise<WorkBreak[]> {
+        const cached = this.workBreaksCache.get(api.profileId);
+        if (cached && (Date.now() - cached.fetchedAt) < this.WORK_BREAKS_CACHE_DURATION) {
+            return cached.workBreaks;
+        }
+
+        const workBreaks = await api.getAllWorkBreaks(employeeId);
+        if (workBreaks && workBreaks.length > 0) {
+            this.workBreaksCache.set(api.profileId, { workBreaks, fetchedAt: Date.now() });
+            return workBreaks;
+        }
+        return cached?.workBreaks ?? [];
+    }
+
+    /**
+     * Flash a reminder on the key for a few seconds, then restore it
+     */
+    private flashReminder(action: any, workBreak: WorkBreak, message: string, color: string): void {
+        const reminder = this.reminders.get(action.id);
+        if (!reminder) {
+            return;
+        }
+
+        this.stopReminderFlash(action);
+        const until = Date.now() + Pause.REMINDER_FLASH_MS;
+        const draw = () => {
+            if (Date.now() >= until) {
+                this.stopReminderFlash(action);
+                this.updateButtonState(action).catch(() => {});
+                return;
+            }
+            action.setImage(generateBreakReminderSVG(workBreak, message, color, Math.floor(Date.now() / 1000) % 2 === 0));
+        };
+        reminder.flashInterval = setInterval(draw, 500);
+        draw();
+        action.showAlert().catch(() => {});
+    }
+
+    private stopReminder(action: any): void {
+        const reminder = this.reminders.get(action.id);
+        if (reminder) {
+            clearInterval(reminder.checkInterval);
+            this.stopReminderFlash(action);
+            this.reminders.delete(action.id);
+        }
+    }
+
+    private stopReminderFlash(action: any): void {
+        const reminder = this.reminders.get(action.id);
+        if (reminder?.flashInterval) {
+            clearInterval(reminder.flashInterval);
+            reminder.flashInterval = null;
+        }
+    }
+
     /**
      * Update button state based on work status and selected break
      */
     private async updateButtonState(action: any, forceShowBreakName: boolean = false): Promise<void> {
+        const api = this.apiFor(action);
         try {
             streamDeck.logger.info('Pause: Updating button state');
 
@@ -373,47 +688,84 @@ export class Pause extends SingletonAction<PauseSettings> {
 
             streamDeck.logger.info(`Pause: Current settings - ID: ${selectedBreakId}, Name: ${selectedBreakName}`);
 
-            const isAuthenticated = await sesameAPI.performLogin();
+            const isAuthenticated = await api.performLogin();
 
             if (!isAuthenticated) {
                 streamDeck.logger.info('Pause: No authentication for button update');
-                const svgImage = generatePauseSVG(selectedBreakName, false);
+                const svgImage = generatePauseSVG(selectedBreakName, false, api.pendingPunchCount);
                 await action.setImage(svgImage);
                 return;
             }
 
-            const workStatus = await sesameAPI.getWorkStatus();
+            const workStatus = await api.getWorkStatus();
 
             if (!workStatus) {
                 streamDeck.logger.error('Pause: Error getting work status for button update');
-                const svgImage = generatePauseSVG(selectedBreakName, false);
+                const svgImage = generatePauseSVG(selectedBreakName, false, api.pendingPunchCount);
                 await action.setImage(svgImage);
                 return;
             }
 
             streamDeck.logger.info(`Pause: Work status received: ${workStatus.workStatus}`);
 
+            // While this key's break is the active one, count it down instead
+            const activePause = await this.findActivePause(action, workStatus);
+            const allowed = allowedBreakSeconds(activePause?.workBreak?.breakMinutes);
+            const pauseStart = activePause?.checkIn?.date ? new Date(activePause.checkIn.date).getTime() : NaN;
+            if (activePause && allowed !== null && !Number.isNaN(pauseStart)
+                && (activePause.workBreakId ?? activePause.workBreak?.id) === this.selectedBreakIds.get(action.id)) {
+                this.startCountdown(action, { breakName: activePause.workBreak?.name ?? selectedBreakName, pauseStart, allowedSeconds: allowed });
+                return;
+            }
+            this.stopCountdown(action);
+
             // Determine if button should be enabled (only online status can pause)
             const isEnabled = workStatus.workStatus === 'online';
 
             // Generate SVG with appropriate icon
-            const svgImage = generatePauseSVG(selectedBreakName, isEnabled);
+            const svgImage = generatePauseSVG(selectedBreakName, isEnabled, api.pendingPunchCount);
             await action.setImage(svgImage);
 
             streamDeck.logger.info(`Pause: Button updated with icon (enabled: ${isEnabled}, break: ${selectedBreakName})`);
 
         } catch (error) {
             streamDeck.logger.error('Pause: Error updating button state:', error);
-            const svgImage = generatePauseSVG('', false);
+            const svgImage = generatePauseSVG('', false, api.pendingPunchCount);
             await action.setImage(svgImage);
         }
     }
 }
 
+/**
+ * Active break counted down on a {@link Pause} key.
+ */
+type BreakCountdown = {
+    breakName: string;
+    pauseStart: number; // Epoch millis
+    allowedSeconds: number;
+    interval: NodeJS.Timeout;
+};
+
+/**
+ * Scheduled window tracking of one {@link Pause} key, reset every day.
+ */
+type BreakReminder = {
+    remindBreaks: boolean;
+    date: string | null; // Local day (YYYY-MM-DD) the flags below refer to
+    sawOpen: boolean;
+    reminded: boolean;
+    warned: boolean;
+    checkInterval: NodeJS.Timeout;
+    flashInterval: NodeJS.Timeout | null;
+};
+
 /**
  * Settings for {@link Pause}.
  */
 type PauseSettings = {
+    profileId?: string; // Sesame profile to punch with (default profile when unset)
     selectedWorkBreakId?: string;
     selectedWorkBreakName?: string;
+    coordinatePresetId?: string; // Location preset of this key (profile default when unset)
+    remindBreaks?: boolean; // Flash when the break's scheduled window opens or closes untaken (default true)
 };
\ No newline at end of file
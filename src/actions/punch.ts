@@ -0,0 +1,501 @@
+import { action, KeyDownEvent, KeyUpEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent, PropertyInspectorDidAppearEvent } from "@elgato/streamdeck";
+import streamDeck from "@elgato/streamdeck";
+import { SesameAPI, WorkBreak, WorkStatus, WorkStatusType } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { PunchKind, PunchConflict } from "../services/punch-outbox";
+import { ConflictError, NetworkError } from "../services/sesame-errors";
+import { describeError, generateForgottenCheckOutSVG, pendingBadgeSVG, showButtonError, showPendingPunch } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
+
+/**
+ * Look of the key for each work status: label, accent color and what a short press does.
+ */
+const PUNCH_DISPLAY: Record<WorkStatusType, { label: string; color: string; hint: string }> = {
+    'offline': { label: 'Fuera', color: '#64748b', hint: 'Pulsa: entrar' },
+    'online': { label: 'Trabajando', color: '#22c55e', hint: 'Pulsa: pausa' },
+    'paused': { label: 'En pausa', color: '#f97316', hint: 'Pulsa: volver' },
+};
+
+/**
+ * Generate an SVG image with the current state, its timer and what a short press does
+ */
+function generatePunchSVG(status: WorkStatusType | null, timeText: string, pendingCount = 0): string {
+    const display = status ? PUNCH_DISPLAY[status] : { label: 'Sin datos', color: '#374151', hint: '' };
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="#1e293b"/>
+            <rect x="0" y="0" width="144" height="8" fill="${display.color}"/>
+            <text x="72" y="40" font-family="Arial, sans-serif" font-size="18" font-weight="bold" fill="${display.color}" text-anchor="middle">${display.label}</text>
+            <text x="72" y="88" font-family="Arial, sans-serif" font-size="34" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${timeText}</text>
+            ${display.hint ? `<text x="72" y="118" font-family="Arial, sans-serif" font-size="13" fill="#cbd5e1" text-anchor="middle">${display.hint}</text>` : ''}
+            ${status && status !== 'offline' ? `<text x="72" y="136" font-family="Arial, sans-serif" font-size="11" fill="#94a3b8" text-anchor="middle">Mantén: salir</text>` : ''}
+            ${pendingBadgeSVG(pendingCount)}
+        </svg>
+    `)}`;
+}
+
+/**
+ * Format elapsed seconds as HH:MM while working and MM:SS during a pause
+ */
+function formatElapsed(seconds: number, status: WorkStatusType): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    if (status === 'paused' && hours === 0) {
+        return `${String(minutes).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+    }
+    return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+/**
+ * Single-key workday: a short press checks in, pauses or resumes depending on the
+ * work status, a long press checks out
+ */
+@action({ UUID: "com.pablo-magaa.sesamecheck.punch" })
+export class Punch extends SingletonAction<PunchSettings> {
+    private static readonly LONG_PRESS_MS = 1000;
+
+    private readonly actionInstances: Set<any> = new Set();
+    private readonly keys: Map<string, PunchKeyState> = new Map(); // Settings, timer and press state of each key
+    private statusChangeListener: ((profileId: string) => void) | null = null;
+    private punchConflictListener: ((conflict: PunchConflict, profileId: string) => void) | null = null;
+
+    /**
+     * Update button state based on current work status
+     */
+    override async onWillAppear(ev: WillAppearEvent<PunchSettings>): Promise<void> {
+        this.actionInstances.add(ev.action);
+        this.stateFor(ev.action).settings = ev.payload.settings;
+        this.apiFor(ev.action).polling.keyAppeared();
+        await this.updateButtonState(ev.action);
+
+        // Register listener for status changes (only once for all instances)
+        if (!this.statusChangeListener) {
+            this.statusChangeListener = (profileId) => {
+                streamDeck.logger.info(`Punch: Status change detected for profile ${profileId}, updating its buttons`);
+                this.updateAllButtons(profileId);
+            };
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
+        }
+
+        // Report queued punches of any kind that Sesame no longer accepts
+        if (!this.punchConflictListener) {
+            this.punchConflictListener = (conflict, profileId) => {
+                for (const action of this.actionInstances) {
+                    if (this.apiFor(action).profileId !== profileId) {
+                        continue;
+                    }
+                    showButtonError(action, new ConflictError(conflict.reason), () => this.updateButtonState(action)).catch(() => {});
+                }
+            };
+            sesameProfiles.addPunchConflictListener(this.punchConflictListener);
+        }
+    }
+
+    /**
+     * Forget the instance, stop its timers and let polling idle when no key is visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<PunchSettings>): void {
+        this.actionInstances.delete(ev.action);
+        this.apiFor(ev.action).polling.keyDisappeared();
+        this.stopDisplayTimer(ev.action);
+        this.clearPressTimer(ev.action);
+        this.keys.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile, break and location chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<PunchSettings>): Promise<void> {
+        const previous = this.apiFor(ev.action);
+        this.stateFor(ev.action).settings = ev.payload.settings;
+
+        const current = this.apiFor(ev.action);
+        if (current !== previous) {
+            previous.polling.keyDisappeared();
+            current.polling.keyAppeared();
+            await this.loadWorkBreaks(ev.action);
+        }
+
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Send the breaks of the profile when the property inspector opens
+     */
+    override async onPropertyInspectorDidAppear(ev: PropertyInspectorDidAppearEvent<PunchSettings>): Promise<void> {
+        if (await this.apiFor(ev.action).isAuthenticated()) {
+            await this.loadWorkBreaks(ev.action);
+        }
+    }
+
+    /**
+     * State of one key, created on first use
+     */
+    private stateFor(action: any): PunchKeyState {
+        let state = this.keys.get(action.id);
+        if (!state) {
+            state = { settings: {}, status: null, since: null, updateInterval: null, pressTimer: null, longPressed: false };
+            this.keys.set(action.id, state);
+        }
+        return state;
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.stateFor(action).settings.profileId);
+    }
+
+    /**
+     * Update all button instances bound to a profile
+     */
+    private updateAllButtons(profileId: string): void {
+        for (const action of this.actionInstances) {
+            if (this.apiFor(action).profileId !== profileId) {
+                continue;
+            }
+            this.updateButtonState(action).catch(error => {
+                streamDeck.logger.error('Punch: Error updating button:', error);
+            });
+        }
+    }
+
+    /**
+     * Start the long-press timer: holding the key checks out
+     */
+    override onKeyDown(ev: KeyDownEvent<PunchSettings>): void {
+        const state = this.stateFor(ev.action);
+        this.clearPressTimer(ev.action);
+        state.longPressed = false;
+        state.pressTimer = setTimeout(() => {
+            state.pressTimer = null;
+            state.longPressed = true;
+            streamDeck.logger.info('Punch: Long press, checking out');
+            this.runPunch(ev.action, true).catch(() => {});
+        }, Punch.LONG_PRESS_MS);
+    }
+
+    /**
+     * A release before the long-press delay is a short press
+     */
+    override async onKeyUp(ev: KeyUpEvent<PunchSettings>): Promise<void> {
+        const state = this.stateFor(ev.action);
+        if (state.longPressed || !state.pressTimer) {
+            return;
+        }
+
+        this.clearPressTimer(ev.action);
+        streamDeck.logger.info('Punch: Short press');
+        await this.runPunch(ev.action, false);
+    }
+
+    private clearPressTimer(action: any): void {
+        const state = this.stateFor(action);
+        if (state.pressTimer) {
+            clearTimeout(state.pressTimer);
+            state.pressTimer = null;
+        }
+    }
+
+    /**
+     * Send the punch that follows the current work status (check-out on long press)
+     */
+    private async runPunch(action: any, longPress: boolean): Promise<void> {
+        const api = this.apiFor(action);
+        try {
+            // Ensure authentication (auto-login if needed)
+            const auth = await api.authenticate();
+            if (!auth.ok) {
+                await showButtonError(action, auth.error, () => this.updateButtonState(action));
+                return;
+            }
+
+            const status = await api.fetchWorkStatus();
+            if (!status.ok) {
+                if (status.error.kind === 'network') {
+                    // Without the status only a check-out (long press) is unambiguous
+                    if (longPress) {
+                        await this.queueOfflinePunch(action, 'checkOut');
+                    } else {
+                        await showButtonError(action, status.error, () => this.updateButtonState(action));
+                    }
+                    return;
+                }
+                await showButtonError(action, status.error, () => this.updateButtonState(action));
+                return;
+            }
+
+            // A short press keeps its meaning while a check looks forgotten: only the long press
+            // check-out is backdated to the last activity (see sendPunch)
+            const workStatus = status.value;
+            const kind = this.nextPunch(workStatus.workStatus, longPress);
+            if (!kind) {
+                streamDeck.logger.info(`Punch: Nothing to do while ${workStatus.workStatus} (long press: ${longPress})`);
+                await this.updateButtonState(action);
+                return;
+            }
+
+            const result = await this.sendPunch(action, kind, workStatus);
+            if (!result) {
+                return;
+            }
+
+            if (result.ok) {
+                setTimeout(() => { this.updateButtonState(action).catch(() => {}); }, 1000);
+            } else if (result.error.kind === 'network') {
+                await this.queueOfflinePunch(action, kind, workStatus);
+            } else {
+                await showButtonError(action, result.error, () => this.updateButtonState(action));
+            }
+
+        } catch (error) {
+            await showButtonError(action, 'Error', () => this.updateButtonState(action));
+        }
+    }
+
+    /**
+     * What a press does in each work status; null when there is nothing to do
+     */
+    private nextPunch(status: WorkStatusType, longPress: boolean): PunchKind | null {
+        if (longPress) {
+            return status === 'offline' ? null : 'checkOut';
+        }
+        if (status === 'offline') {
+            return 'checkIn';
+        }
+        return status === 'online' ? 'pause' : 'checkIn'; // Checking in while paused resumes work
+    }
+
+    /**
+     * Call the API for a punch. Resolves null when the punch could not even be attempted.
+     */
+    private async sendPunch(action: any, kind: PunchKind, workStatus: WorkStatus) {
+        const api = this.apiFor(action);
+        const { settings } = this.stateFor(action);
+        const coordinates = await api.resolvePunchCoordinates(settings.coordinatePresetId);
+        const actionUUID = action.manifestId;
+
+        if (kind === 'checkOut') {
+            return api.forgottenCheckOut
+                ? await api.checkOutForgotten(workStatus.employeeId, { coordinates, actionUUID })
+                : await api.checkOut(workStatus.employeeId, { coordinates, actionUUID });
+        }
+
+        if (kind === 'checkIn') {
+            return workStatus.workStatus === 'paused'
+                ? await api.resume(workStatus.employeeId, workStatus.lastCheck, { actionUUID })
+                : await api.checkIn(workStatus.employeeId, { coordinates, actionUUID });
+        }
+
+        const workBreakId = await this.defaultBreakId(action, workStatus.employeeId);
+        if (!workBreakId) {
+            await showButtonError(action, 'No break selected', () => this.updateButtonState(action));
+            return null;
+        }
+        return await api.pause(workStatus.employeeId, workBreakId, { coordinates, actionUUID });
+    }
+
+    /**
+     * Break used for pauses: the one chosen for this key, else the first active break of the employee
+     */
+    private async defaultBreakId(action: any, employeeId: string): Promise<string | undefined> {
+        const { settings } = this.stateFor(action);
+        if (settings.selectedWorkBreakId) {
+            return settings.selectedWorkBreakId;
+        }
+
+        const workBreaks = await this.apiFor(action).getAllWorkBreaks(employeeId) ?? [];
+        const workBreak = workBreaks.find(wb => wb.active) ?? workBreaks[0];
+        streamDeck.logger.info(`Punch: No break selected, using default "${workBreak?.name ?? 'none'}"`);
+        return workBreak?.id;
+    }
+
+    /**
+     * Save the punch in the offline outbox when Sesame cannot be reached
+     */
+    private async queueOfflinePunch(action: any, kind: PunchKind, workStatus?: WorkStatus): Promise<void> {
+        const api = this.apiFor(action);
+        const { settings } = this.stateFor(action);
+        const lastCheck = workStatus?.workStatus === 'paused' ? workStatus.lastCheck : null;
+
+        if (kind === 'pause' && !settings.selectedWorkBreakId) {
+            await showButtonError(action, new NetworkError(), () => this.updateButtonState(action));
+            return;
+        }
+
+        const punch = await api.queuePunch(kind, {
+            workBreakId: kind === 'pause' ? settings.selectedWorkBreakId : undefined,
+            workCheckTypeId: lastCheck?.checkInWorkCheckTypeId ?? undefined,
+            coordinates: lastCheck?.checkInCoordinates ?? await api.resolvePunchCoordinates(settings.coordinatePresetId)
+        });
+        if (punch) {
+            await showPendingPunch(action, api.pendingPunchCount, () => this.updateButtonState(action));
+        } else {
+            await showButtonError(action, new NetworkError(), () => this.updateButtonState(action));
+        }
+    }
+
+    /**
+     * Handle messages from property inspector (login form and break selection)
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, PunchSettings>): Promise<void> {
+        const { payload } = ev;
+        const api = this.apiFor(ev.action);
+
+        if (payload.event === 'login') {
+            const { email, password, rememberPassword } = payload;
+
+            if (!email || !password) {
+                await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
+                return;
+            }
+
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
+
+            if (result.ok) {
+                await this.updateButtonState(ev.action);
+                await this.loadWorkBreaks(ev.action);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
+            }
+        } else if (payload.event === 'logout') {
+            await api.logout();
+            await this.updateButtonState(ev.action);
+        } else if (payload.event === 'loadWorkBreaks') {
+            await this.loadWorkBreaks(ev.action);
+        } else if (payload.event === 'selectWorkBreak') {
+            // The property inspector saves the break in the key settings as well
+            streamDeck.logger.info(`Punch: Work break selected: ${payload.workBreakId} (${payload.workBreakName})`);
+        } else if (payload.event === 'selectEmployee') {
+            // Breaks are defined per company: reload them for the new employee record
+            await api.selectEmployee(payload.employeeId);
+            await this.loadWorkBreaks(ev.action);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+
+    /**
+     * Store the profile's breaks in its settings and send them to the property inspector
+     */
+    private async loadWorkBreaks(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        let workBreaks: WorkBreak[] = [];
+
+        const workStatus = await api.getWorkStatus();
+        if (workStatus) {
+            workBreaks = await api.getAllWorkBreaks(workStatus.employeeId) ?? [];
+        }
+
+        if (workBreaks.length > 0) {
+            await api.saveSettings({
+                availableWorkBreaks: JSON.parse(JSON.stringify(workBreaks)), // Convert to JSON-compatible format
+                workBreaksLastUpdated: Date.now()
+            });
+        }
+
+        streamDeck.logger.info(`Punch: Sending ${workBreaks.length} work breaks to property inspector`);
+        await action.sendToPropertyInspector({ event: 'workBreaksLoaded', workBreaks });
+    }
+
+    /**
+     * Start redrawing the timer every second (no API calls)
+     */
+    private startDisplayTimer(action: any): void {
+        this.stopDisplayTimer(action);
+        this.stateFor(action).updateInterval = setInterval(() => {
+            this.updateDisplay(action);
+        }, 1000);
+    }
+
+    /**
+     * Stop the display timer
+     */
+    private stopDisplayTimer(action: any): void {
+        const state = this.stateFor(action);
+        if (state.updateInterval) {
+            clearInterval(state.updateInterval);
+            state.updateInterval = null;
+        }
+    }
+
+    /**
+     * Redraw the key from the cached status and the time the current state started
+     */
+    private updateDisplay(action: any): void {
+        const { status, since } = this.stateFor(action);
+        const forgotten = this.apiFor(action).forgottenCheckOut;
+        if (forgotten && status && status !== 'offline') {
+            action.setImage(generateForgottenCheckOutSVG(new Date(forgotten.checkOutAt), Math.floor(Date.now() / 1000) % 2 === 0, 'Mantén'));
+            return;
+        }
+
+        const elapsed = since !== null ? Math.max(0, Math.floor((Date.now() - since) / 1000)) : null;
+        const timeText = status && status !== 'offline' && elapsed !== null ? formatElapsed(elapsed, status) : '--:--';
+        action.setImage(generatePunchSVG(status, timeText, this.apiFor(action).pendingPunchCount));
+    }
+
+    /**
+     * Update button state based on work status
+     */
+    private async updateButtonState(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const state = this.stateFor(action);
+        try {
+            streamDeck.logger.info('Punch: Updating button state');
+            this.stopDisplayTimer(action);
+
+            const isAuthenticated = await api.performLogin();
+            const workStatus = isAuthenticated ? await api.getWorkStatus() : null;
+
+            if (!workStatus) {
+                streamDeck.logger.info('Punch: No work status for button update');
+                state.status = null;
+                state.since = null;
+                this.updateDisplay(action);
+                return;
+            }
+
+            // The last check started when the current state (work session or pause) began
+            const since = workStatus.lastCheck?.checkInDatetime ? new Date(workStatus.lastCheck.checkInDatetime).getTime() : NaN;
+            state.status = workStatus.workStatus;
+            state.since = Number.isNaN(since) ? null : since;
+
+            if (state.status !== 'offline' && state.since !== null) {
+                this.startDisplayTimer(action);
+            }
+            this.updateDisplay(action);
+
+        } catch (error) {
+            streamDeck.logger.error('Punch: Error updating button state:', error);
+            state.status = null;
+            state.since = null;
+            this.updateDisplay(action);
+        }
+    }
+}
+
+/**
+ * Settings for {@link Punch}.
+ */
+type PunchSettings = {
+    profileId?: string; // Sesame profile to punch with (default profile when unset)
+    selectedWorkBreakId?: string; // Break used on pause (first active break when unset)
+    selectedWorkBreakName?: string;
+    coordinatePresetId?: string; // Location preset of this key (profile default when unset)
+};
+
+/**
+ * Display and press state of one {@link Punch} key.
+ */
+type PunchKeyState = {
+    settings: PunchSettings;
+    status: WorkStatusType | null;
+    since: number | null; // Epoch millis when the current state began
+    updateInterval: NodeJS.Timeout | null;
+    pressTimer: NodeJS.Timeout | null; // Pending long press
+    longPressed: boolean;
+};
@@ -0,0 +1,320 @@
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import streamDeck from "@elgato/streamdeck";
+import { LastCheck, SesameAPI } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { NetworkError } from "../services/sesame-errors";
+import { describeError, pendingBadgeSVG, showButtonError, showPendingPunch } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
+
+/**
+ * Generate an SVG image with a green "play" icon and, while paused, the elapsed pause time
+ */
+function generateResumeSVG(enabled: boolean, pauseTime = '', pendingCount = 0): string {
+    const bgColor = "#1e293b"; // Dark blue-gray background
+    const iconColor = enabled ? "#22c55e" : "#374151"; // Green when enabled, gray when disabled
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="${bgColor}"/>
+            <polygon points="56,20 56,80 104,50" fill="${iconColor}"/>
+            <rect x="36" y="20" width="10" height="60" rx="5" fill="${iconColor}"/>
+            <text x="72" y="112" font-family="Arial, sans-serif" font-size="28" font-weight="bold" fill="${enabled ? '#FFFFFF' : '#6b7280'}" text-anchor="middle">${pauseTime || 'Volver'}</text>
+            ${pauseTime ? `<text x="72" y="134" font-family="Arial, sans-serif" font-size="13" fill="#f59e0b" text-anchor="middle">en pausa</text>` : ''}
+            ${pendingBadgeSVG(pendingCount)}
+        </svg>
+    `)}`;
+}
+
+/**
+ * Format the pause duration as MM:SS (HH:MM:SS past one hour)
+ */
+function formatPauseTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    const secs = seconds % 60;
+    const mmss = `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+    return hours > 0 ? `${hours}:${mmss}` : mmss;
+}
+
+/**
+ * Action for ending a pause and returning to work
+ */
+@action({ UUID: "com.pablo-magaa.sesamecheck.resume" })
+export class Resume extends SingletonAction<ResumeSettings> {
+    private readonly actionInstances: Set<any> = new Set();
+    private readonly keys: Map<string, ResumeKeyState> = new Map(); // Profile and pause timer of each key
+    private statusChangeListener: ((profileId: string) => void) | null = null;
+
+    /**
+     * Update button state based on current work status
+     */
+    override async onWillAppear(ev: WillAppearEvent<ResumeSettings>): Promise<void> {
+        this.actionInstances.add(ev.action);
+        this.stateFor(ev.action).profileId = ev.payload.settings.profileId;
+        this.apiFor(ev.action).polling.keyAppeared();
+        await this.updateButtonState(ev.action);
+
+        // Register listener for status changes (only once for all instances)
+        if (!this.statusChangeListener) {
+            this.statusChangeListener = (profileId) => {
+                streamDeck.logger.info(`Resume: Status change detected for profile ${profileId}, updating its buttons`);
+                this.updateAllButtons(profileId);
+            };
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
+        }
+    }
+
+    /**
+     * Forget the instance, stop its pause timer and let polling idle when no key is visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<ResumeSettings>): void {
+        this.actionInstances.delete(ev.action);
+        this.apiFor(ev.action).polling.keyDisappeared();
+        this.stopPauseTimer(ev.action);
+        this.keys.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<ResumeSettings>): Promise<void> {
+        const previous = this.apiFor(ev.action);
+        this.stateFor(ev.action).profileId = ev.payload.settings.profileId;
+
+        const current = this.apiFor(ev.action);
+        if (current !== previous) {
+            previous.polling.keyDisappeared();
+            current.polling.keyAppeared();
+        }
+
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * State of one key, created on first use
+     */
+    private stateFor(action: any): ResumeKeyState {
+        let state = this.keys.get(action.id);
+        if (!state) {
+            state = { pauseStartedAt: null, updateInterval: null };
+            this.keys.set(action.id, state);
+        }
+        return state;
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.stateFor(action).profileId);
+    }
+
+    /**
+     * Update all button instances bound to a profile
+     */
+    private updateAllButtons(profileId: string): void {
+        for (const action of this.actionInstances) {
+            if (this.apiFor(action).profileId !== profileId) {
+                continue;
+            }
+            this.updateButtonState(action).catch(error => {
+                streamDeck.logger.error('Resume: Error updating button:', error);
+            });
+        }
+    }
+
+    /**
+     * Handle resume action
+     */
+    override async onKeyDown(ev: KeyDownEvent<ResumeSettings>): Promise<void> {
+        const api = this.apiFor(ev.action);
+        try {
+            streamDeck.logger.info('Resume button pressed');
+
+            // Ensure authentication (auto-login if needed)
+            const auth = await api.authenticate();
+            if (!auth.ok) {
+                await showButtonError(ev.action, auth.error, () => this.updateButtonState(ev.action));
+                return;
+            }
+
+            const status = await api.fetchWorkStatus();
+            if (!status.ok) {
+                if (status.error.kind === 'network') {
+                    await this.queueOfflinePunch(ev.action, null);
+                    return;
+                }
+                await showButtonError(ev.action, status.error, () => this.updateButtonState(ev.action));
+                return;
+            }
+
+            const workStatus = status.value;
+
+            if (workStatus.workStatus !== 'paused') {
+                streamDeck.logger.info(`Resume: Status is ${workStatus.workStatus}, nothing to resume`);
+                await this.updateButtonState(ev.action);
+                return;
+            }
+
+            const result = await api.resume(workStatus.employeeId, workStatus.lastCheck, { actionUUID: ev.action.manifestId });
+            if (result.ok) {
+                this.stopPauseTimer(ev.action);
+                setTimeout(() => { this.updateButtonState(ev.action).catch(() => {}); }, 1000);
+            } else if (result.error.kind === 'network') {
+                await this.queueOfflinePunch(ev.action, workStatus.lastCheck);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
+            }
+
+        } catch (error) {
+            await showButtonError(ev.action, 'Error', () => this.updateButtonState(ev.action));
+        }
+    }
+
+    /**
+     * Save the return to work as a check-in in the offline outbox when Sesame cannot be reached
+     */
+    private async queueOfflinePunch(action: any, pauseCheck: LastCheck | null): Promise<void> {
+        const api = this.apiFor(action);
+        const punch = await api.queuePunch('checkIn', {
+            workCheckTypeId: pauseCheck?.checkInWorkCheckTypeId ?? undefined,
+            coordinates: pauseCheck?.checkInCoordinates ?? undefined
+        });
+        if (punch) {
+            await showPendingPunch(action, api.pendingPunchCount, () => this.updateButtonState(action));
+        } else {
+            await showButtonError(action, new NetworkError(), () => this.updateButtonState(action));
+        }
+    }
+
+    /**
+     * Handle messages from property inspector (login form)
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, ResumeSettings>): Promise<void> {
+        const { payload } = ev;
+        const api = this.apiFor(ev.action);
+
+        if (payload.event === 'login') {
+            const { email, password, rememberPassword } = payload;
+
+            if (!email || !password) {
+                await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
+                return;
+            }
+
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
+
+            if (result.ok) {
+                await this.updateButtonState(ev.action);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
+            }
+        } else if (payload.event === 'logout') {
+            await api.logout();
+            await this.updateButtonState(ev.action);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+
+    /**
+     * Start updating the elapsed pause time every second (no API calls)
+     */
+    private startPauseTimer(action: any, pauseStartedAt: number): void {
+        this.stopPauseTimer(action);
+
+        const state = this.stateFor(action);
+        state.pauseStartedAt = pauseStartedAt;
+        state.updateInterval = setInterval(() => {
+            this.updatePauseDisplay(action);
+        }, 1000);
+        this.updatePauseDisplay(action);
+    }
+
+    /**
+     * Stop the pause timer
+     */
+    private stopPauseTimer(action: any): void {
+        const state = this.stateFor(action);
+        if (state.updateInterval) {
+            clearInterval(state.updateInterval);
+            state.updateInterval = null;
+        }
+        state.pauseStartedAt = null;
+    }
+
+    /**
+     * Redraw the key with the time elapsed since the pause started
+     */
+    private updatePauseDisplay(action: any): void {
+        const { pauseStartedAt } = this.stateFor(action);
+        if (pauseStartedAt === null) {
+            return;
+        }
+
+        const elapsedSeconds = Math.max(0, Math.floor((Date.now() - pauseStartedAt) / 1000));
+        action.setImage(generateResumeSVG(true, formatPauseTime(elapsedSeconds), this.apiFor(action).pendingPunchCount));
+    }
+
+    /**
+     * Update button state based on work status: enabled (with pause timer) only while paused
+     */
+    private async updateButtonState(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        try {
+            streamDeck.logger.info('Resume: Updating button state');
+            const isAuthenticated = await api.performLogin();
+
+            if (!isAuthenticated) {
+                streamDeck.logger.info('Resume: No authentication for button update');
+                await this.showDisabled(action);
+                return;
+            }
+
+            const workStatus = await api.getWorkStatus();
+
+            if (!workStatus) {
+                streamDeck.logger.error('Resume: Error getting work status for button update');
+                await this.showDisabled(action);
+                return;
+            }
+
+            const pauseStart = workStatus.lastCheck?.checkInDatetime ? new Date(workStatus.lastCheck.checkInDatetime).getTime() : NaN;
+            if (workStatus.workStatus === 'paused' && !Number.isNaN(pauseStart)) {
+                streamDeck.logger.info('Resume: Status paused, enabling Volver button');
+                this.startPauseTimer(action, pauseStart);
+                await action.setState(0); // Enabled state
+            } else {
+                streamDeck.logger.info(`Resume: Status ${workStatus.workStatus}, disabling Volver button`);
+                await this.showDisabled(action);
+            }
+
+        } catch (error) {
+            streamDeck.logger.error('Resume: Error updating button state:', error);
+            await this.showDisabled(action);
+        }
+    }
+
+    private async showDisabled(action: any): Promise<void> {
+        this.stopPauseTimer(action);
+        await action.setImage(generateResumeSVG(false, '', this.apiFor(action).pendingPunchCount));
+        await action.setState(1); // Disabled state
+    }
+}
+
+/**
+ * Settings for {@link Resume}.
+ */
+type ResumeSettings = {
+    profileId?: string; // Sesame profile to punch with (default profile when unset)
+};
+
+/**
+ * Display state of one {@link Resume} key.
+ */
+type ResumeKeyState = {
+    profileId?: string;
+    pauseStartedAt: number | null; // Epoch millis of the active pause, null when not paused
+    updateInterval: NodeJS.Timeout | null;
+};
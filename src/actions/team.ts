@@ -0,0 +1,209 @@
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
+import streamDeck from "@elgato/streamdeck";
+import { SesameAPI, TeamMember } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { describeError, showButtonError } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
+
+/**
+ * Generate an SVG image with the number of colleagues working and how many of them are on a break
+ */
+function generateTeamSVG(online: number | null, paused: number): string {
+    const total = online === null ? '--' : String(online + paused);
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="#1e293b"/>
+            <text x="72" y="36" font-family="Arial, sans-serif" font-size="16" fill="#cbd5e1" text-anchor="middle">Equipo</text>
+            <text x="72" y="90" font-family="Arial, sans-serif" font-size="46" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${total}</text>
+            ${online === null ? '' : `
+            <circle cx="34" cy="120" r="6" fill="#22c55e"/>
+            <text x="46" y="126" font-family="Arial, sans-serif" font-size="16" fill="#FFFFFF">${online}</text>
+            <circle cx="86" cy="120" r="6" fill="#f97316"/>
+            <text x="98" y="126" font-family="Arial, sans-serif" font-size="16" fill="#FFFFFF">${paused}</text>`}
+        </svg>
+    `)}`;
+}
+
+/**
+ * Action that shows how many colleagues are working right now; the property inspector lists them
+ */
+@action({ UUID: "com.pablo-magaa.sesamecheck.team" })
+export class Team extends SingletonAction<TeamSettings> {
+    private static readonly REFRESH_INTERVAL_MS = 120000; // Presence changes slowly, and is not part of the status poll
+
+    private readonly keys: Map<string, TeamKeyState> = new Map();
+
+    /**
+     * Show the team count and refresh it periodically while the key is visible
+     */
+    override async onWillAppear(ev: WillAppearEvent<TeamSettings>): Promise<void> {
+        const state = this.stateFor(ev.action);
+        state.profileId = ev.payload.settings.profileId;
+        state.refreshInterval = setInterval(() => {
+            this.updateButtonState(ev.action).catch(error => {
+                streamDeck.logger.error('Team: Error refreshing team:', error);
+            });
+        }, Team.REFRESH_INTERVAL_MS);
+
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Stop refreshing when the key is no longer visible
+     */
+    override onWillDisappear(ev: WillDisappearEvent<TeamSettings>): void {
+        const state = this.stateFor(ev.action);
+        if (state.refreshInterval) {
+            clearInterval(state.refreshInterval);
+        }
+        this.keys.delete(ev.action.id);
+    }
+
+    /**
+     * Follow the profile chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<TeamSettings>): Promise<void> {
+        this.stateFor(ev.action).profileId = ev.payload.settings.profileId;
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * Refresh the count on demand
+     */
+    override async onKeyDown(ev: KeyDownEvent<TeamSettings>): Promise<void> {
+        streamDeck.logger.info('Team button pressed, refreshing');
+        await this.updateButtonState(ev.action);
+    }
+
+    /**
+     * State of one key, created on first use
+     */
+    private stateFor(action: any): TeamKeyState {
+        let state = this.keys.get(action.id);
+        if (!state) {
+            state = { refreshInterval: null };
+            this.keys.set(action.id, state);
+        }
+        return state;
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.stateFor(action).profileId);
+    }
+
+    /**
+     * Colleagues working or paused in the selected company, without the user
+     */
+    private async loadWorkingColleagues(api: SesameAPI): Promise<TeamMember[] | null> {
+        const workStatus = await api.getWorkStatus();
+        if (!workStatus) {
+            return null;
+        }
+
+        // Fall back to the whos-in list when the company listing is not available
+        const members = (workStatus.companyId ? await api.getWorkingEmployees(workStatus.companyId) : null)
+            ?? await api.getWhosInOnline();
+        return members?.filter(member => member.employeeId !== workStatus.employeeId && member.workStatus !== 'offline') ?? null;
+    }
+
+    /**
+     * Handle messages from property inspector (login form and team list)
+     */
+    override async onSendToPlugin(ev: SendToPluginEvent<any, TeamSettings>): Promise<void> {
+        const { payload } = ev;
+        const api = this.apiFor(ev.action);
+
+        if (payload.event === 'login') {
+            const { email, password, rememberPassword } = payload;
+
+            if (!email || !password) {
+                await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
+                return;
+            }
+
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
+
+            if (result.ok) {
+                await this.updateButtonState(ev.action);
+            } else {
+                await showButtonError(ev.action, result.error, () => this.updateButtonState(ev.action));
+            }
+        } else if (payload.event === 'logout') {
+            await api.logout();
+            await this.updateButtonState(ev.action);
+        } else if (payload.event === 'loadTeam') {
+            await this.sendTeam(ev.action);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
+        }
+    }
+
+    /**
+     * Send who is working and who is not to the property inspector
+     */
+    private async sendTeam(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const working = await this.loadWorkingColleagues(api);
+        const self = (await api.getWorkStatus())?.employeeId;
+        const offline = working ? (await api.getWhosInOffline() ?? []).filter(member => member.employeeId !== self) : [];
+        const byCheckIn = (a: TeamMember, b: TeamMember) => (a.checkInTime ?? '').localeCompare(b.checkInTime ?? '');
+
+        streamDeck.logger.info(`Team: Sending ${working?.length ?? 0} working and ${offline.length} offline colleagues to property inspector`);
+        await action.sendToPropertyInspector({
+            event: 'teamLoaded',
+            success: working !== null,
+            working: (working ?? []).sort(byCheckIn),
+            offline: offline.sort((a, b) => a.fullName.localeCompare(b.fullName))
+        });
+    }
+
+    /**
+     * Update the key with the number of colleagues online and paused
+     */
+    private async updateButtonState(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        try {
+            const isAuthenticated = await api.performLogin();
+            if (!isAuthenticated) {
+                streamDeck.logger.info('Team: No authentication for button update');
+                await action.setImage(generateTeamSVG(null, 0));
+                return;
+            }
+
+            const colleagues = await this.loadWorkingColleagues(api);
+            if (!colleagues) {
+                streamDeck.logger.error('Team: Could not load working colleagues');
+                await action.setImage(generateTeamSVG(null, 0));
+                return;
+            }
+
+            const paused = colleagues.filter(member => member.workStatus === 'paused').length;
+            streamDeck.logger.info(`Team: ${colleagues.length - paused} online, ${paused} paused`);
+            await action.setImage(generateTeamSVG(colleagues.length - paused, paused));
+
+        } catch (error) {
+            streamDeck.logger.error('Team: Error updating button state:', error);
+            await action.setImage(generateTeamSVG(null, 0));
+        }
+    }
+}
+
+/**
+ * Settings for {@link Team}.
+ */
+type TeamSettings = {
+    profileId?: string; // Sesame profile whose company is shown (default profile when unset)
+};
+
+/**
+ * Refresh state of one {@link Team} key.
+ */
+type TeamKeyState = {
+    profileId?: string;
+    refreshInterval: NodeJS.Timeout | null;
+};
@@ -1,15 +1,19 @@
-import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent } from "@elgato/streamdeck";
+import { action, KeyDownEvent, SingletonAction, WillAppearEvent, WillDisappearEvent, SendToPluginEvent, DidReceiveSettingsEvent } from "@elgato/streamdeck";
 import streamDeck from "@elgato/streamdeck";
-import { sesameAPI, WorkStatusType, EmployeeCheck } from "../services/sesame-api";
-import { showButtonError } from "../utils/error-display";
+import { SesameAPI, WorkStatusType, EmployeeCheck } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+import { groupChecksByDay, historyPageRange } from "../services/check-history";
+import { describeError, generateForgottenCheckOutSVG, showButtonError } from "../utils/error-display";
+import { handleProfileMessage } from "../utils/profile-messages";
 
 /**
- * Generate an SVG image with black background and white text
+ * Generate an SVG image with black background and white text, optionally inside a progress ring
  */
-function generateTimerSVG(topText: string, timeText: string, bottomText?: string): string {
+function generateTimerSVG(topText: string, timeText: string, bottomText?: string, progress?: TargetProgress, background = "#000000"): string {
     return `data:image/svg+xml,${encodeURIComponent(`
         <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
-            <rect width="144" height="144" fill="#000000"/>
+            <rect width="144" height="144" fill="${background}"/>
+            ${progress ? progressRingSVG(progress) : ''}
             <text x="72" y="45" font-family="Arial, sans-serif" font-size="16" fill="#FFFFFF" text-anchor="middle">${topText}</text>
             <text x="72" y="95" font-family="Arial, sans-serif" font-size="36" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${timeText}</text>
             ${bottomText ? `<text x="72" y="128" font-family="Arial, sans-serif" font-size="13" fill="#f59e0b" text-anchor="middle">${bottomText}</text>` : ''}
@@ -17,41 +21,131 @@ function generateTimerSVG(topText: string, timeText: string, bottomText?: string
     `)}`;
 }
 
+/**
+ * SVG fragment with a ring along the key border filled up to the share of today's target worked
+ */
+function progressRingSVG(progress: TargetProgress): string {
+    const radius = 66;
+    const circumference = 2 * Math.PI * radius;
+    const filled = circumference * Math.min(1, Math.max(0, progress.ratio));
+    const color = progress.ratio >= 1 ? "#22c55e" : "#3b82f6"; // Green once the target is reached
+
+    return `
+        <circle cx="72" cy="72" r="${radius}" fill="none" stroke="#1f2937" stroke-width="6"/>
+        <circle cx="72" cy="72" r="${radius}" fill="none" stroke="${color}" stroke-width="6" stroke-linecap="round"
+            stroke-dasharray="${filled.toFixed(1)} ${circumference.toFixed(1)}" transform="rotate(-90 72 72)"/>
+    `;
+}
+
+/**
+ * Parse the overtime thresholds setting ("30, 60") into sorted minutes
+ */
+function parseThresholds(value?: string): number[] {
+    return (value ?? '30, 60')
+        .split(',')
+        .map(part => parseInt(part.trim(), 10))
+        .filter(minutes => minutes > 0)
+        .sort((a, b) => a - b);
+}
+
 /**
  * Action that displays current work time and opens Sesame HR web on click
  */
 @action({ UUID: "com.pablo-magaa.sesamecheck.worktimer" })
 export class WorkTimer extends SingletonAction<WorkTimerSettings> {
-    private updateInterval: NodeJS.Timeout | null = null;
-    private currentWorkSeconds: number = 0;
-    private lastApiUpdateTime: number | null = null;
-    private currentStatus: WorkStatusType | null = null;
-    private currentPauseSeconds: number = 0;
+    private static readonly FLASH_DURATION_MS = 10000;
+    private static readonly CHECK_OUT_SUGGESTION_MS = 60000; // A press checks out during this window
+    private static readonly FORGOTTEN_CONFIRM_MS = 5000; // A second press accepts the backdated check-out
+    private static readonly NOTIFICATION_COLORS = ["#16a34a", "#ea580c", "#dc2626"]; // Target reached, first and later thresholds
+    private static readonly HISTORY_PAGE_DAYS = 7; // Days per page of the check history
+
+    private readonly timers: Map<string, TimerState> = new Map(); // Per key, keys may show different profiles
     private readonly actionInstances: Set<any> = new Set();
-    private statusChangeListener: (() => void) | null = null;
+    private statusChangeListener: ((profileId: string) => void) | null = null;
 
     /**
      * When the action appears, update work time once
      */
     override async onWillAppear(ev: WillAppearEvent<WorkTimerSettings>): Promise<void> {
         this.actionInstances.add(ev.action);
+        this.applySettings(ev.action, ev.payload.settings);
+        this.apiFor(ev.action).polling.keyAppeared();
         await this.updateWorkTime(ev.action);
 
         // Register listener for status changes (only once for all instances)
         if (!this.statusChangeListener) {
-            this.statusChangeListener = () => {
-                streamDeck.logger.info('WorkTimer: Status change detected via WebSocket, updating all timers');
-                this.updateAllTimers();
+            this.statusChangeListener = (profileId) => {
+                streamDeck.logger.info(`WorkTimer: Status change detected for profile ${profileId}, updating its timers`);
+                this.updateAllTimers(profileId);
+            };
+            sesameProfiles.addStatusChangeListener(this.statusChangeListener);
+        }
+    }
+
+    /**
+     * Follow the profile chosen in the property inspector
+     */
+    override async onDidReceiveSettings(ev: DidReceiveSettingsEvent<WorkTimerSettings>): Promise<void> {
+        const previous = this.apiFor(ev.action);
+        this.applySettings(ev.action, ev.payload.settings);
+
+        const current = this.apiFor(ev.action);
+        if (current !== previous) {
+            previous.polling.keyDisappeared();
+            current.polling.keyAppeared();
+        }
+
+        await this.updateWorkTime(ev.action);
+    }
+
+    /**
+     * Copy the key settings into its timer state. A profile change forgets the daily target.
+     */
+    private applySettings(action: any, settings: WorkTimerSettings): void {
+        const state = this.stateFor(action);
+        if (state.profileId !== settings.profileId) {
+            state.targetSeconds = null;
+            state.targetDate = null;
+        }
+        state.profileId = settings.profileId;
+        state.showRemaining = !!settings.showRemaining;
+        state.notifyTarget = settings.notifyTarget !== false;
+        state.overtimeThresholds = parseThresholds(settings.overtimeThresholds);
+        state.suggestCheckOut = !!settings.suggestCheckOut;
+    }
+
+    /**
+     * Timer state of one key, created on first use
+     */
+    private stateFor(action: any): TimerState {
+        let state = this.timers.get(action.id);
+        if (!state) {
+            state = {
+                updateInterval: null, currentWorkSeconds: 0, lastApiUpdateTime: null, currentStatus: null, currentPauseSeconds: 0,
+                targetSeconds: null, targetDate: null, showRemaining: false,
+                notifyTarget: true, overtimeThresholds: parseThresholds(), suggestCheckOut: false,
+                notifiedLevel: -1, notifiedDate: null, flashUntil: 0, flashColor: '', checkOutSuggestedUntil: 0, forgottenConfirmUntil: 0
             };
-            sesameAPI.addStatusChangeListener(this.statusChangeListener);
+            this.timers.set(action.id, state);
         }
+        return state;
+    }
+
+    /**
+     * Sesame client of the profile selected for this key
+     */
+    private apiFor(action: any): SesameAPI {
+        return sesameProfiles.get(this.stateFor(action).profileId);
     }
 
     /**
-     * Update all timer instances when status changes
+     * Update all timer instances of a profile when its status changes
      */
-    private updateAllTimers(): void {
+    private updateAllTimers(profileId: string): void {
         for (const action of this.actionInstances) {
+            if (this.apiFor(action).profileId !== profileId) {
+                continue;
+            }
             this.updateWorkTime(action).catch(error => {
                 streamDeck.logger.error('WorkTimer: Error updating timer:', error);
             });
@@ -63,13 +157,32 @@ export class WorkTimer extends SingletonAction<WorkTimerSettings> {
      */
     override onWillDisappear(ev: WillDisappearEvent<WorkTimerSettings>): void {
         this.actionInstances.delete(ev.action);
-        this.stopDisplayTimer();
+        this.apiFor(ev.action).polling.keyDisappeared();
+        this.stopDisplayTimer(ev.action);
+        this.timers.delete(ev.action.id);
     }
 
     /**
      * When pressed, open Sesame HR website
      */
     override async onKeyDown(ev: KeyDownEvent<WorkTimerSettings>): Promise<void> {
+        const state = this.stateFor(ev.action);
+        if (this.apiFor(ev.action).forgottenCheckOut) {
+            // The backdated check-out needs a second press on the warning
+            if (Date.now() < state.forgottenConfirmUntil) {
+                state.forgottenConfirmUntil = 0;
+                await this.checkOutForgotten(ev.action);
+            } else {
+                state.forgottenConfirmUntil = Date.now() + WorkTimer.FORGOTTEN_CONFIRM_MS;
+                this.updateDisplayTime(ev.action);
+            }
+            return;
+        }
+        if (Date.now() < state.checkOutSuggestedUntil) {
+            await this.checkOutFromSuggestion(ev.action);
+            return;
+        }
+
         // Open Sesame HR website
         try {
             const { exec } = await import('child_process');
@@ -83,9 +196,9 @@ export class WorkTimer extends SingletonAction<WorkTimerSettings> {
      * Start the display timer to update time display every second (no API calls)
      */
     private startDisplayTimer(action: any): void {
-        this.stopDisplayTimer(); // Clear any existing timer
+        this.stopDisplayTimer(action); // Clear any existing timer
         
-        this.updateInterval = setInterval(() => {
+        this.stateFor(action).updateInterval = setInterval(() => {
             this.updateDisplayTime(action);
         }, 1000); // Update display every second
     }
@@ -93,10 +206,11 @@ export class WorkTimer extends SingletonAction<WorkTimerSettings> {
     /**
      * Stop the display timer
      */
-    private stopDisplayTimer(): void {
-        if (this.updateInterval) {
-            clearInterval(this.updateInterval);
-            this.updateInterval = null;
+    private stopDisplayTimer(action: any): void {
+        const state = this.stateFor(action);
+        if (state.updateInterval) {
+            clearInterval(state.updateInterval);
+            state.updateInterval = null;
         }
     }
 
@@ -105,76 +219,229 @@ export class WorkTimer extends SingletonAction<WorkTimerSettings> {
      * Uses cached totals and status to refresh the display every second.
      */
     private updateDisplayTime(action: any): void {
-        if (this.lastApiUpdateTime === null) {
+        const state = this.stateFor(action);
+        if (state.lastApiUpdateTime === null) {
             return;
         }
 
-        if (this.currentStatus === 'paused') {
-            const formattedWork = sesameAPI.formatWorkTime(this.currentWorkSeconds);
-            const svgPause = generateTimerSVG("Hoy llevas", formattedWork, "☕ En pausa");
-            action.setImage(svgPause);
+        // A check that looks forgotten takes over the key until it is closed
+        const forgotten = this.apiFor(action).forgottenCheckOut;
+        if (forgotten) {
+            const gesture = Date.now() < state.forgottenConfirmUntil ? 'Otra vez' : 'Pulsa 2×';
+            action.setImage(generateForgottenCheckOutSVG(new Date(forgotten.checkOutAt), Math.floor(Date.now() / 1000) % 2 === 0, gesture));
             return;
         }
 
-        let totalWorkSeconds = this.currentWorkSeconds;
-        if (this.currentStatus === 'online') {
+        let totalWorkSeconds = state.currentWorkSeconds;
+        if (state.currentStatus === 'online') {
             const now = Date.now();
-            const elapsedSeconds = Math.max(0, Math.floor((now - this.lastApiUpdateTime) / 1000));
+            const elapsedSeconds = Math.max(0, Math.floor((now - state.lastApiUpdateTime) / 1000));
             totalWorkSeconds += elapsedSeconds;
         }
 
-        const formattedTime = sesameAPI.formatWorkTime(totalWorkSeconds);
-        const svgImage = generateTimerSVG("Hoy llevas", formattedTime);
-        action.setImage(svgImage);
+        const api = this.apiFor(action);
+        const bottomText = state.currentStatus === 'paused' ? "☕ En pausa" : undefined;
+        const target = state.targetSeconds;
+
+        if (!target) {
+            action.setImage(generateTimerSVG("Hoy llevas", api.formatWorkTime(totalWorkSeconds), bottomText));
+            return;
+        }
+
+        if (state.currentStatus === 'online') {
+            this.checkTargetNotifications(action, totalWorkSeconds, target);
+        }
+
+        // Flash on notifications, then keep suggesting the check-out for a while
+        const now = Date.now();
+        const flashing = now < state.flashUntil;
+        const background = flashing && Math.floor(now / 1000) % 2 === 0 ? state.flashColor : undefined;
+        const hint = now < state.checkOutSuggestedUntil ? "Pulsa: salir" : bottomText;
+
+        const progress = { ratio: totalWorkSeconds / target };
+        if (state.showRemaining) {
+            const remaining = target - totalWorkSeconds;
+            const topText = remaining > 0 ? "Te quedan" : "Objetivo ✔";
+            const timeText = remaining > 0 ? api.formatWorkTime(remaining) : `+${api.formatWorkTime(-remaining)}`;
+            action.setImage(generateTimerSVG(topText, timeText, hint, progress, background));
+            return;
+        }
+
+        action.setImage(generateTimerSVG("Hoy llevas", api.formatWorkTime(totalWorkSeconds), hint, progress, background));
+    }
+
+    /**
+     * Notify once per day when the target is reached and at each overtime threshold.
+     * Runs in the display tick, so it makes no Sesame calls; the alerted level is kept in the
+     * profile settings, so page switches and restarts do not repeat an alert.
+     */
+    private checkTargetNotifications(action: any, workedSeconds: number, target: number): void {
+        const state = this.stateFor(action);
+        if (!state.notifyTarget) {
+            return;
+        }
+
+        const reachedAt = this.apiFor(action).calculateTargetReachedAt(workedSeconds, target);
+        if (!reachedAt || reachedAt.getTime() > Date.now()) {
+            return;
+        }
+
+        // Level 0 is the target itself, level n the n-th overtime threshold
+        const overtimeMinutes = (workedSeconds - target) / 60;
+        const level = state.overtimeThresholds.filter(minutes => overtimeMinutes >= minutes).length;
+
+        const today = new Intl.DateTimeFormat('en-CA').format(new Date());
+        if (state.notifiedDate !== today) {
+            state.notifiedDate = today;
+            state.notifiedLevel = -1;
+        }
+        if (level <= state.notifiedLevel) {
+            return;
+        }
+
+        state.notifiedLevel = level;
+        this.apiFor(action).claimTargetNotification(today, level)
+            .then(claimed => {
+                if (claimed && this.timers.has(action.id)) {
+                    this.flashTargetNotification(action, level, reachedAt);
+                }
+            })
+            .catch(error => streamDeck.logger.error('WorkTimer: Could not record the target alert:', error));
+    }
+
+    /**
+     * Flash the key for a newly reached target level
+     */
+    private flashTargetNotification(action: any, level: number, reachedAt: Date): void {
+        const state = this.stateFor(action);
+        state.flashUntil = Date.now() + WorkTimer.FLASH_DURATION_MS;
+        state.flashColor = WorkTimer.NOTIFICATION_COLORS[Math.min(level, WorkTimer.NOTIFICATION_COLORS.length - 1)];
+        if (state.suggestCheckOut) {
+            state.checkOutSuggestedUntil = Date.now() + WorkTimer.CHECK_OUT_SUGGESTION_MS;
+        }
+
+        streamDeck.logger.info(level === 0
+            ? `WorkTimer: Daily target reached at ${reachedAt.toLocaleTimeString()}`
+            : `WorkTimer: Overtime threshold ${state.overtimeThresholds[level - 1]} min reached`);
+        action.showAlert().catch(() => {});
+    }
+
+    /**
+     * Check out after the user accepted the check-out suggestion
+     */
+    private async checkOutFromSuggestion(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const state = this.stateFor(action);
+        state.checkOutSuggestedUntil = 0;
+        state.flashUntil = 0;
+        streamDeck.logger.info('WorkTimer: Checking out from the end-of-day suggestion');
+
+        const workStatus = await api.getWorkStatus();
+        if (!workStatus || workStatus.workStatus === 'offline') {
+            await this.updateWorkTime(action);
+            return;
+        }
+
+        const result = await api.checkOut(workStatus.employeeId, { coordinates: await api.resolvePunchCoordinates(), actionUUID: action.manifestId });
+        if (result.ok) {
+            await action.showOk();
+        } else {
+            await showButtonError(action, result.error, () => this.updateWorkTime(action));
+        }
+    }
+
+    /**
+     * Check out a forgotten check, backdated to the last activity
+     */
+    private async checkOutForgotten(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const workStatus = await api.getWorkStatus();
+        if (!workStatus) {
+            await this.updateWorkTime(action);
+            return;
+        }
+
+        const result = await api.checkOutForgotten(workStatus.employeeId, { coordinates: await api.resolvePunchCoordinates(), actionUUID: action.manifestId });
+        if (result.ok) {
+            await action.showOk();
+        } else {
+            await showButtonError(action, result.error, () => this.updateWorkTime(action));
+        }
+    }
+
+    /**
+     * Today's target in seconds, fetched once per day (the work status may already carry it)
+     */
+    private async loadDailyTarget(action: any, employeeId: string, secondsToWork?: number): Promise<void> {
+        const state = this.stateFor(action);
+        const today = new Intl.DateTimeFormat('en-CA').format(new Date());
+
+        if (typeof secondsToWork === 'number' && secondsToWork > 0) {
+            state.targetSeconds = secondsToWork;
+            state.targetDate = today;
+            return;
+        }
+
+        if (state.targetDate === today) {
+            return;
+        }
+
+        const stats = await this.apiFor(action).getTodayDailyStats(employeeId);
+        state.targetSeconds = stats && stats.secondsToWork > 0 ? stats.secondsToWork : null;
+        state.targetDate = stats ? today : null; // Retry on the next update after a failure
+        streamDeck.logger.info(`WorkTimer: Daily target ${state.targetSeconds ?? 'none'}s`);
     }
 
     /**
      * Update the work time display (only called on load or after actions)
      */
     private async updateWorkTime(action: any): Promise<void> {
+        const api = this.apiFor(action);
+        const state = this.stateFor(action);
         try {
             // Ensure authentication (auto-login if needed)
-            const isAuthenticated = await sesameAPI.performLogin();
+            const isAuthenticated = await api.performLogin();
 
             if (!isAuthenticated) {
                 const svgImage = generateTimerSVG("No Auth", "--:--");
                 await action.setImage(svgImage);
-                this.stopDisplayTimer();
+                this.stopDisplayTimer(action);
                 return;
             }
 
             // Get current work status
-            const workStatus = await sesameAPI.getWorkStatus();
+            const workStatus = await api.getWorkStatus();
 
             if (!workStatus) {
                 const svgImage = generateTimerSVG("Error", "--:--");
                 await action.setImage(svgImage);
-                this.stopDisplayTimer();
+                this.stopDisplayTimer(action);
                 return;
             }
 
             streamDeck.logger.info(`WorkTimer: Current work status: ${workStatus.workStatus}`);
 
             // Clear any existing timer before recalculating
-            this.stopDisplayTimer();
+            this.stopDisplayTimer(action);
 
-            const checks = await sesameAPI.getTodayChecks(workStatus.employeeId);
+            const checks = await api.getTodayChecks(workStatus.employeeId);
 
             if (!checks) {
                 const svgImage = generateTimerSVG("Sin datos", "--:--");
                 await action.setImage(svgImage);
-                this.lastApiUpdateTime = null;
-                this.currentStatus = workStatus.workStatus;
-                this.currentPauseSeconds = 0;
+                state.lastApiUpdateTime = null;
+                state.currentStatus = workStatus.workStatus;
+                state.currentPauseSeconds = 0;
                 return;
             }
 
             const { workSeconds, pauseSeconds } = this.calculateDailyMetrics(checks, workStatus.workStatus);
+            await this.loadDailyTarget(action, workStatus.employeeId, workStatus.lastCheck?.computedHourStat?.secondsToWork);
 
-            this.currentWorkSeconds = workSeconds;
-            this.currentPauseSeconds = pauseSeconds;
-            this.lastApiUpdateTime = Date.now();
-            this.currentStatus = workStatus.workStatus;
+            state.currentWorkSeconds = workSeconds;
+            state.currentPauseSeconds = pauseSeconds;
+            state.lastApiUpdateTime = Date.now();
+            state.currentStatus = workStatus.workStatus;
 
             streamDeck.logger.info(`WorkTimer: workSeconds=${workSeconds}, pauseSeconds=${pauseSeconds}, status=${workStatus.workStatus}`);
 
@@ -189,7 +456,7 @@ export class WorkTimer extends SingletonAction<WorkTimerSettings> {
             streamDeck.logger.error('Error updating work time:', error);
             const svgImage = generateTimerSVG("Error", "--:--");
             await action.setImage(svgImage);
-            this.stopDisplayTimer();
+            this.stopDisplayTimer(action);
         }
     }
 
@@ -305,33 +572,94 @@ export class WorkTimer extends SingletonAction<WorkTimerSettings> {
      */
     override async onSendToPlugin(ev: SendToPluginEvent<any, WorkTimerSettings>): Promise<void> {
         const { payload } = ev;
+        const api = this.apiFor(ev.action);
 
         if (payload.event === 'login') {
-            const { email, password } = payload;
+            const { email, password, rememberPassword } = payload;
 
             if (!email || !password) {
                 await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: false, error: 'Enter email and password' });
                 return;
             }
 
-            const success = await sesameAPI.performLogin(email, password);
-            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success, error: sesameAPI.lastError });
+            const result = await api.authenticate(email, password, rememberPassword);
+            await (ev.action as any).sendToPropertyInspector({ event: 'loginResult', success: result.ok, error: result.ok ? null : describeError(result.error) });
 
-            if (success) {
+            if (result.ok) {
                 await this.updateWorkTime(ev.action);
             } else {
-                await showButtonError(ev.action, sesameAPI.lastError || 'Login failed', () => this.updateWorkTime(ev.action));
+                await showButtonError(ev.action, result.error, () => this.updateWorkTime(ev.action));
             }
         } else if (payload.event === 'logout') {
-            await sesameAPI.logout();
+            await api.logout();
             await this.updateWorkTime(ev.action);
+        } else if (payload.event === 'loadHistory') {
+            await this.sendHistory(ev.action, payload.from, payload.to, payload.page);
+        } else {
+            await handleProfileMessage(ev.action, payload, api);
         }
     }
+
+    /**
+     * Send one page of the checks of a date range, grouped by day, to the property inspector.
+     * Pages are whole days (newest first), so a day's totals are never split.
+     */
+    private async sendHistory(action: any, from: string, to: string, page = 1): Promise<void> {
+        const api = this.apiFor(action);
+        const workStatus = await api.getWorkStatus();
+        const range = from && to && from <= to ? historyPageRange(from, to, page, WorkTimer.HISTORY_PAGE_DAYS) : null;
+        const checks = workStatus && range ? await api.getDailyChecks(workStatus.employeeId, range.from, range.to) : null;
+
+        streamDeck.logger.info(`WorkTimer: Sending history ${range?.from}..${range?.to} page ${page} (${checks?.length ?? 0} checks)`);
+        await action.sendToPropertyInspector({
+            event: 'historyLoaded',
+            success: checks !== null,
+            from,
+            to,
+            days: checks ? groupChecksByDay(checks) : [],
+            meta: range ? { currentPage: Math.min(Math.max(1, page), range.lastPage), lastPage: range.lastPage } : null
+        });
+    }
 }
 
 /**
  * Settings for {@link WorkTimer}.
  */
 type WorkTimerSettings = {
-    // No specific settings needed for now
+    profileId?: string; // Sesame profile to show (default profile when unset)
+    showRemaining?: boolean; // Count down to today's target instead of showing the time worked
+    notifyTarget?: boolean; // Flash and alert when the target and overtime thresholds are reached (default on)
+    overtimeThresholds?: string; // Minutes over the target, comma separated (default "30, 60")
+    suggestCheckOut?: boolean; // After a notification, a press checks out instead of opening the website
+};
+
+/**
+ * Display state of one {@link WorkTimer} key.
+ */
+type TimerState = {
+    updateInterval: NodeJS.Timeout | null;
+    currentWorkSeconds: number;
+    lastApiUpdateTime: number | null;
+    currentStatus: WorkStatusType | null;
+    currentPauseSeconds: number;
+    targetSeconds: number | null; // Today's secondsToWork, null when unknown or none
+    targetDate: string | null; // Day (YYYY-MM-DD) targetSeconds belongs to
+    showRemaining: boolean;
+    notifyTarget: boolean;
+    overtimeThresholds: number[]; // Sorted minutes over the target
+    suggestCheckOut: boolean;
+    notifiedLevel: number; // Highest notification checked today: -1 none, 0 target, n n-th threshold
+    notifiedDate: string | null;
+    flashUntil: number; // Epoch millis
+    flashColor: string;
+    checkOutSuggestedUntil: number; // Epoch millis
+    forgottenConfirmUntil: number; // Epoch millis until which a press accepts the forgotten check-out
+    profileId?: string;
+};
+
+/**
+ * Share of today's target worked so far (1 = target reached).
+ */
+type TargetProgress = {
+    ratio: number;
 };
@@ -0,0 +1,11 @@
+import { MockSesameServer } from "./services/mock-sesame-server";
+
+// Standalone mock Sesame server for running the plugin against it:
+//   npm run mock -- 4010
+//   SESAME_MOCK_URL=http://localhost:4010 (in the Stream Deck environment)
+// Log in with any email and the password "demo".
+const port = Number(process.argv[2] ?? process.env.MOCK_PORT ?? 4010);
+
+new MockSesameServer().listen(port).then(() => {
+    console.log(`Mock Sesame server listening on http://localhost:${port}`);
+});
@@ -4,7 +4,14 @@ import { WorkTimer } from "./actions/work-timer";
 import { CheckIn } from "./actions/check-in";
 import { CheckOut } from "./actions/check-out";
 import { Pause } from "./actions/pause";
-import { sesameAPI } from "./services/sesame-api";
+import { Resume } from "./actions/resume";
+import { Punch } from "./actions/punch";
+import { Team } from "./actions/team";
+import { Colleague } from "./actions/colleague";
+import { Balance } from "./actions/balance";
+import { Export } from "./actions/export";
+import { sesameProfiles } from "./services/sesame-profiles";
+import { resolveCoordinateProvider, setCoordinateProvider } from "./services/coordinates";
 
 // We can enable "trace" logging so that all messages between the Stream Deck, and the plugin are recorded. When storing sensitive information
 streamDeck.logger.setLevel("trace");
@@ -21,8 +28,31 @@ streamDeck.logger.info('Registering CheckOut...');
 streamDeck.actions.registerAction(new CheckOut());
 streamDeck.logger.info('Registering Pause...');
 streamDeck.actions.registerAction(new Pause());
+streamDeck.logger.info('Registering Resume...');
+streamDeck.actions.registerAction(new Resume());
+streamDeck.logger.info('Registering Punch...');
+streamDeck.actions.registerAction(new Punch());
+streamDeck.logger.info('Registering Team...');
+streamDeck.actions.registerAction(new Team());
+streamDeck.logger.info('Registering Colleague...');
+streamDeck.actions.registerAction(new Colleague());
+streamDeck.logger.info('Registering Balance...');
+streamDeck.actions.registerAction(new Balance());
+streamDeck.logger.info('Registering Export...');
+streamDeck.actions.registerAction(new Export());
 streamDeck.logger.info('All actions registered!');
 
+// Punches ask a location service for their coordinates when one is configured
+const coordinateProvider = resolveCoordinateProvider();
+if (coordinateProvider) {
+    setCoordinateProvider(coordinateProvider);
+}
+
+// Any key press counts as activity of its profile (a forgotten check-out is backdated to it)
+streamDeck.actions.onKeyDown((ev) => {
+    sesameProfiles.get((ev.payload.settings as { profileId?: string }).profileId).noteActivity();
+});
+
 // Handle global settings updates
 streamDeck.settings.onDidReceiveGlobalSettings((ev) => {
     streamDeck.logger.info('Global settings received:', ev.settings);
@@ -37,9 +67,9 @@ streamDeck.connect();
 streamDeck.logger.info('Requesting global settings...');
 streamDeck.settings.getGlobalSettings();
 
-// Initialize polling for status updates if user is authenticated
+// Initialize polling for status updates of every authenticated profile
 streamDeck.logger.info('Initializing status polling...');
-sesameAPI.initializePolling()
+sesameProfiles.initialize()
     .then(() => {
         streamDeck.logger.info('Status polling initialization completed');
     })
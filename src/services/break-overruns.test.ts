@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { allowedBreakSeconds, findBreakOverruns } from "./break-overruns";
+import type { EmployeeCheck } from "./sesame-api";
+
+const lunch = { id: 'lunch', name: 'Comida', breakMinutes: 30 } as any;
+
+function pause(id: string, start: Date, end: Date | null, workBreak = lunch): EmployeeCheck {
+    return {
+        id,
+        checkType: 'pause',
+        checkIn: { date: start.toISOString() },
+        checkOut: end ? { date: end.toISOString() } : null,
+        workBreak
+    };
+}
+
+describe('allowedBreakSeconds', () => {
+    it('treats missing and all-day breaks as unlimited', () => {
+        expect(allowedBreakSeconds(30)).toBe(1800);
+        expect(allowedBreakSeconds(0)).toBeNull();
+        expect(allowedBreakSeconds(1439)).toBeNull();
+    });
+});
+
+describe('findBreakOverruns', () => {
+    const start = new Date(2026, 9, 19, 14, 0);
+
+    it('reports only pauses longer than their break', () => {
+        const checks = [
+            pause('short', start, new Date(2026, 9, 19, 14, 20)),
+            pause('long', start, new Date(2026, 9, 19, 14, 45)),
+            { id: 'work', checkType: 'work', checkIn: { date: start.toISOString() }, checkOut: null }
+        ];
+
+        const overruns = findBreakOverruns(checks);
+
+        expect(overruns).toHaveLength(1);
+        expect(overruns[0]).toMatchObject({ checkId: 'long', date: '2026-10-19', workBreakName: 'Comida', allowedSeconds: 1800, overrunSeconds: 900 });
+    });
+
+    it('measures an open pause until now', () => {
+        const now = new Date(2026, 9, 19, 14, 40).getTime();
+        expect(findBreakOverruns([pause('open', start, null)], now)[0].overrunSeconds).toBe(600);
+    });
+});
@@ -0,0 +1,64 @@
+import type { EmployeeCheck } from "./sesame-api";
+
+/**
+ * A pause that lasted longer than its break allows.
+ */
+export interface BreakOverrun {
+    checkId: string; // Pause check, one entry per pause
+    date: string; // Local day (YYYY-MM-DD) the pause started
+    workBreakId: string | null;
+    workBreakName: string;
+    allowedSeconds: number;
+    overrunSeconds: number; // Still growing while the pause is open
+}
+
+/**
+ * Breaks of this length or longer have no real limit ("all day").
+ */
+export const UNLIMITED_BREAK_MINUTES = 1439;
+
+/**
+ * Seconds a pause is allowed to last, or null when its break has no limit.
+ */
+export function allowedBreakSeconds(breakMinutes: number | undefined | null): number | null {
+    if (!breakMinutes || breakMinutes >= UNLIMITED_BREAK_MINUTES) {
+        return null;
+    }
+    return breakMinutes * 60;
+}
+
+/**
+ * Overruns of the given pause checks; open pauses are measured until `nowMillis`.
+ */
+export function findBreakOverruns(checks: EmployeeCheck[], nowMillis: number = Date.now()): BreakOverrun[] {
+    const overruns: BreakOverrun[] = [];
+
+    for (const check of checks) {
+        if (typeof check.checkType !== 'string' || check.checkType.toLowerCase() !== 'pause' || !check.checkIn?.date) {
+            continue;
+        }
+
+        const allowed = allowedBreakSeconds(check.workBreak?.breakMinutes);
+        if (allowed === null) {
+            continue;
+        }
+
+        const start = new Date(check.checkIn.date).getTime();
+        const end = check.checkOut?.date ? new Date(check.checkOut.date).getTime() : nowMillis;
+        const overrun = Math.floor((end - start) / 1000) - allowed;
+        if (Number.isNaN(overrun) || overrun <= 0) {
+            continue;
+        }
+
+        overruns.push({
+            checkId: check.id,
+            date: new Intl.DateTimeFormat('en-CA').format(new Date(start)),
+            workBreakId: check.workBreakId ?? check.workBreak?.id ?? null,
+            workBreakName: check.workBreak?.name ?? '',
+            allowedSeconds: allowed,
+            overrunSeconds: overrun
+        });
+    }
+
+    return overruns;
+}
@@ -0,0 +1,35 @@
+import type { EmployeeCheck, WorkBreak } from "./sesame-api";
+import { toMinutes, WEEKDAYS } from "./polling-scheduler";
+
+/**
+ * Where a moment falls relative to the scheduled window of a break on that day.
+ * 'unscheduled' when the break has no window or is not planned for that weekday.
+ */
+export type BreakWindowPhase = 'unscheduled' | 'before' | 'open' | 'closed';
+
+/**
+ * Phase of the break's startTime-endTime window at the given local time.
+ */
+export function breakWindowPhase(workBreak: WorkBreak, now: Date = new Date()): BreakWindowPhase {
+    if (!workBreak.startTime || !workBreak.endTime) {
+        return 'unscheduled';
+    }
+    if (workBreak.weekdays?.length && !workBreak.weekdays.includes(WEEKDAYS[now.getDay()])) {
+        return 'unscheduled';
+    }
+
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    if (minutes < toMinutes(workBreak.startTime)) {
+        return 'before';
+    }
+    return minutes < toMinutes(workBreak.endTime) ? 'open' : 'closed';
+}
+
+/**
+ * Whether any of the given checks is a pause of this break.
+ */
+export function isBreakTaken(workBreakId: string, checks: EmployeeCheck[]): boolean {
+    return checks.some(check =>
+        typeof check.checkType === 'string' && check.checkType.toLowerCase() === 'pause'
+        && (check.workBreakId ?? check.workBreak?.id) === workBreakId);
+}
@@ -0,0 +1,105 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CALENDAR_FILE_NAME, calendarCoverage, checksToEvents, foldLine, updateCalendarFile } from "./calendar-export";
+import type { EmployeeCheck } from "./sesame-api";
+
+function check(id: string, start: Date, end: Date | null, checkType = 'work', breakName?: string): EmployeeCheck {
+    return {
+        id,
+        checkType,
+        checkIn: { date: start.toISOString() },
+        checkOut: end ? { date: end.toISOString() } : null,
+        ...(breakName ? { workBreak: { id: 'lunch', name: breakName, breakMinutes: 60 } as any } : {})
+    };
+}
+
+describe('checksToEvents', () => {
+    it('names pauses after their break and ends open checks now', () => {
+        const now = new Date(2026, 9, 19, 16, 0).getTime();
+        const events = checksToEvents([
+            check('work', new Date(2026, 9, 19, 9, 0), null),
+            check('lunch', new Date(2026, 9, 19, 14, 0), new Date(2026, 9, 19, 15, 0), 'pause', 'Comida')
+        ], now);
+
+        expect(events[0]).toMatchObject({ uid: 'work@sesame-checker', date: '2026-10-19', summary: 'Trabajo', end: new Date(now) });
+        expect(events[1].summary).toBe('☕ Comida');
+    });
+
+    it("files each event under the day it started in the check's timezone", () => {
+        const lateCheck = (timezone: string | null): EmployeeCheck => ({
+            id: 'late',
+            checkType: 'work',
+            checkIn: { date: '2026-10-19T23:30:00.000Z', timezone },
+            checkOut: { date: '2026-10-20T01:00:00.000Z', timezone }
+        });
+
+        expect(checksToEvents([lateCheck('Europe/Madrid')])[0].date).toBe('2026-10-20');
+        expect(checksToEvents([lateCheck('America/New_York')])[0].date).toBe('2026-10-19');
+        expect(checksToEvents([lateCheck('Not/AZone')])[0].date).toBe(new Intl.DateTimeFormat('en-CA').format(new Date('2026-10-19T23:30:00.000Z')));
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves short lines alone', () => {
+        expect(foldLine('SUMMARY:Trabajo')).toBe('SUMMARY:Trabajo');
+    });
+
+    it('folds at 75 octets without splitting characters', () => {
+        const line = `SUMMARY:${'☕ Pausa de media mañana '.repeat(6)}`;
+        const folded = foldLine(line).split('\r\n');
+
+        expect(folded.length).toBeGreaterThan(1);
+        expect(Buffer.byteLength(folded[0], 'utf8')).toBeLessThanOrEqual(75);
+        for (const continuation of folded.slice(1)) {
+            expect(continuation.startsWith(' ')).toBe(true);
+            expect(Buffer.byteLength(continuation, 'utf8')).toBeLessThanOrEqual(75);
+        }
+        expect(folded.map((part, index) => index === 0 ? part : part.slice(1)).join('')).toBe(line);
+    });
+});
+
+describe('updateCalendarFile', () => {
+    let folder: string;
+
+    beforeEach(async () => {
+        folder = await mkdtemp(path.join(os.tmpdir(), 'sesame-calendar-'));
+    });
+
+    afterEach(async () => {
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    const monday = check('mon', new Date(2026, 9, 19, 9, 0), new Date(2026, 9, 19, 17, 0));
+    const tuesday = check('tue', new Date(2026, 9, 20, 9, 0), new Date(2026, 9, 20, 17, 0));
+
+    it('writes UTC times and the window it covers', async () => {
+        const file = await updateCalendarFile(folder, checksToEvents([monday]), '2026-10-19', '2026-10-01');
+        const content = await readFile(file, 'utf8');
+
+        expect(path.basename(file)).toBe(CALENDAR_FILE_NAME);
+        expect(content).toContain('X-SESAME-FROM:2026-10-01');
+        expect(content).toMatch(/DTSTART:\d{8}T\d{6}Z\r\n/);
+        expect(content).not.toContain('TZID');
+        expect(await calendarCoverage(folder)).toEqual({ from: '2026-10-01', last: '2026-10-19' });
+    });
+
+    it('keeps the days before the refresh and drops the ones before the window', async () => {
+        await updateCalendarFile(folder, checksToEvents([monday]), '2026-10-19', '2026-10-01');
+        await updateCalendarFile(folder, checksToEvents([tuesday]), '2026-10-20', '2026-10-01');
+        let content = await readFile(path.join(folder, CALENDAR_FILE_NAME), 'utf8');
+        expect(content).toContain('UID:mon@sesame-checker');
+        expect(content).toContain('UID:tue@sesame-checker');
+        expect(content.indexOf('UID:mon')).toBeLessThan(content.indexOf('UID:tue'));
+
+        await updateCalendarFile(folder, checksToEvents([tuesday]), '2026-10-20', '2026-10-20');
+        content = await readFile(path.join(folder, CALENDAR_FILE_NAME), 'utf8');
+        expect(content).not.toContain('UID:mon@sesame-checker');
+        expect(await calendarCoverage(folder)).toEqual({ from: '2026-10-20', last: '2026-10-20' });
+    });
+
+    it('reports no coverage without a calendar file', async () => {
+        expect(await calendarCoverage(folder)).toBeNull();
+    });
+});
@@ -0,0 +1,172 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { EmployeeCheck } from "./sesame-api";
+
+/**
+ * File the rolling calendar is written to, inside the export folder.
+ */
+export const CALENDAR_FILE_NAME = 'sesame-calendar.ics';
+
+const PRODUCT_ID = '-//pablo-magaa//Sesame Checker//ES';
+
+/**
+ * A work session or named break as a calendar event. Start and end are written as UTC instants: an
+ * instant is the same moment in every zone, so calendar apps place it next to meetings in whatever
+ * zone they show, with no VTIMEZONE to carry per Sesame zone. The check's own timezone decides the
+ * day an event belongs to.
+ */
+export interface CalendarEvent {
+    uid: string;
+    date: string; // Day (YYYY-MM-DD) the check started in its timezone, used to replace a day's events
+    summary: string;
+    start: Date;
+    end: Date; // Now for a check that is still open
+}
+
+/**
+ * Days a calendar file covers: from the start of its window to the last day with events.
+ */
+export interface CalendarCoverage {
+    from: string;
+    last: string | null; // Null when the window had no events
+}
+
+/**
+ * One event per check; pauses are named after their break. Open checks end now.
+ * Checks without a (known) timezone are filed under the local day.
+ */
+export function checksToEvents(checks: EmployeeCheck[], nowMillis: number = Date.now()): CalendarEvent[] {
+    return checks
+        .filter(check => !!check.checkIn?.date)
+        .map(check => {
+            const start = new Date(check.checkIn!.date!);
+            const isPause = typeof check.checkType === 'string' && check.checkType.toLowerCase() === 'pause';
+            return {
+                uid: `${check.id}@sesame-checker`,
+                date: dayIn(start, check.checkIn!.timezone),
+                summary: isPause ? `☕ ${check.workBreak?.name ?? 'Pausa'}` : 'Trabajo',
+                start,
+                end: check.checkOut?.date ? new Date(check.checkOut.date) : new Date(nowMillis)
+            };
+        });
+}
+
+/**
+ * Regenerate the days from `refreshFrom` on with `events`, keep the earlier days already in the
+ * file and drop everything before `keepFrom`. Returns the file path.
+ */
+export async function updateCalendarFile(folder: string, events: CalendarEvent[], refreshFrom: string, keepFrom: string): Promise<string> {
+    const file = path.join(folder, CALENDAR_FILE_NAME);
+    const kept = (await readCalendarEvents(file))
+        .filter(event => event.date >= keepFrom && event.date < refreshFrom);
+
+    const blocks = [...kept, ...events.filter(event => event.date >= keepFrom).map(event => ({ date: event.date, start: formatUtc(event.start), block: eventToIcs(event) }))]
+        .sort((a, b) => a.start.localeCompare(b.start))
+        .map(event => event.block);
+
+    const header = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN', `X-SESAME-FROM:${keepFrom}`];
+    await mkdir(folder, { recursive: true });
+    await writeFile(file, [...header, ...blocks, 'END:VCALENDAR'].join('\r\n') + '\r\n', 'utf8');
+    return file;
+}
+
+/**
+ * Days covered by the calendar file, or null when there is none (or it predates the window header).
+ */
+export async function calendarCoverage(folder: string): Promise<CalendarCoverage | null> {
+    const content = await readCalendar(path.join(folder, CALENDAR_FILE_NAME));
+    const from = /X-SESAME-FROM:(\d{4}-\d{2}-\d{2})/.exec(content ?? '')?.[1];
+    if (!content || !from) {
+        return null;
+    }
+
+    const dates = calendarEvents(content).map(event => event.date).sort();
+    return { from, last: dates.length > 0 ? dates[dates.length - 1] : null };
+}
+
+async function readCalendar(file: string): Promise<string | null> {
+    try {
+        return await readFile(file, 'utf8');
+    } catch {
+        return null;
+    }
+}
+
+async function readCalendarEvents(file: string): Promise<Array<{ date: string; start: string; block: string }>> {
+    return calendarEvents(await readCalendar(file) ?? '');
+}
+
+/**
+ * The VEVENT blocks of a calendar written by {@link updateCalendarFile}, as they were written.
+ */
+function calendarEvents(content: string): Array<{ date: string; start: string; block: string }> {
+    const events: Array<{ date: string; start: string; block: string }> = [];
+    for (const match of content.matchAll(/BEGIN:VEVENT\r?\n[\s\S]*?END:VEVENT/g)) {
+        const block = match[0].replace(/\r?\n/g, '\r\n');
+        const date = /X-SESAME-DATE:(\d{4}-\d{2}-\d{2})/.exec(block)?.[1];
+        const start = /X-SESAME-START:(\d{8}T\d{6}Z)/.exec(block)?.[1];
+        if (date && start) {
+            events.push({ date, start, block });
+        }
+    }
+    return events;
+}
+
+/**
+ * Day (YYYY-MM-DD) of `date` in the IANA `timezone`, or in the local one when it is missing or unknown.
+ */
+function dayIn(date: Date, timezone: string | null | undefined): string {
+    if (timezone) {
+        try {
+            return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(date);
+        } catch {
+            // Unknown zone: fall back to the local day
+        }
+    }
+    return new Intl.DateTimeFormat('en-CA').format(date);
+}
+
+function eventToIcs(event: CalendarEvent): string {
+    return [
+        'BEGIN:VEVENT',
+        `UID:${event.uid}`,
+        `DTSTAMP:${formatUtc(new Date())}`,
+        `DTSTART:${formatUtc(event.start)}`,
+        `DTEND:${formatUtc(event.end)}`,
+        foldLine(`SUMMARY:${escapeText(event.summary)}`),
+        'TRANSP:OPAQUE',
+        `X-SESAME-DATE:${event.date}`,
+        `X-SESAME-START:${formatUtc(event.start)}`,
+        'END:VEVENT'
+    ].join('\r\n');
+}
+
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+    return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+/**
+ * Fold lines longer than 75 octets of UTF-8, as RFC 5545 asks. Continuation lines start with a
+ * space, so they carry 74 octets; characters are never split.
+ */
+export function foldLine(line: string): string {
+    const chunks: string[] = [];
+    let chunk = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = Buffer.byteLength(char, 'utf8');
+        if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+            chunks.push(chunk);
+            chunk = '';
+            octets = 0;
+        }
+        chunk += char;
+        octets += size;
+    }
+    chunks.push(chunk);
+    return chunks.join('\r\n ');
+}
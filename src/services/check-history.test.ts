@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { groupChecksByDay, historyPageRange } from "./check-history";
+import type { EmployeeCheck } from "./sesame-api";
+
+function check(id: string, start: Date, end: Date | null, checkType = 'work'): EmployeeCheck {
+    return { id, checkType, checkIn: { date: start.toISOString() }, checkOut: end ? { date: end.toISOString() } : null };
+}
+
+describe('groupChecksByDay', () => {
+    it('groups by local day, newest day first and checks in order within a day', () => {
+        const now = new Date(2026, 9, 20, 10, 0).getTime();
+        const days = groupChecksByDay([
+            check('mon-pm', new Date(2026, 9, 19, 15, 0), new Date(2026, 9, 19, 18, 0)),
+            check('tue', new Date(2026, 9, 20, 9, 0), null),
+            check('mon-am', new Date(2026, 9, 19, 9, 0), new Date(2026, 9, 19, 14, 0)),
+            check('mon-pause', new Date(2026, 9, 19, 14, 0), new Date(2026, 9, 19, 15, 0), 'pause')
+        ], now);
+
+        expect(days.map(day => day.date)).toEqual(['2026-10-20', '2026-10-19']);
+        expect(days[1].entries.map(entry => entry.checkId)).toEqual(['mon-am', 'mon-pause', 'mon-pm']);
+        expect(days[1]).toMatchObject({ workSeconds: 8 * 3600, pauseSeconds: 3600 });
+        expect(days[0].entries[0]).toMatchObject({ end: null, seconds: 3600 });
+    });
+});
+
+describe('historyPageRange', () => {
+    it('pages whole days from the newest', () => {
+        expect(historyPageRange('2026-10-01', '2026-10-19', 1, 7)).toEqual({ from: '2026-10-13', to: '2026-10-19', lastPage: 3 });
+        expect(historyPageRange('2026-10-01', '2026-10-19', 2, 7)).toEqual({ from: '2026-10-06', to: '2026-10-12', lastPage: 3 });
+        expect(historyPageRange('2026-10-01', '2026-10-19', 3, 7)).toEqual({ from: '2026-10-01', to: '2026-10-05', lastPage: 3 });
+    });
+
+    it('clamps pages outside the range', () => {
+        expect(historyPageRange('2026-10-01', '2026-10-19', 9, 7).from).toBe('2026-10-01');
+        expect(historyPageRange('2026-10-19', '2026-10-19', 0, 7)).toEqual({ from: '2026-10-19', to: '2026-10-19', lastPage: 1 });
+    });
+});
@@ -0,0 +1,89 @@
+import type { EmployeeCheck } from "./sesame-api";
+import { findBreakOverruns } from "./break-overruns";
+
+/**
+ * One work or pause check as listed in the history.
+ */
+export interface HistoryEntry {
+    checkId: string;
+    kind: 'work' | 'pause';
+    start: string | null; // ISO timestamps
+    end: string | null; // Null while the check is open
+    seconds: number;
+    breakName: string | null;
+    overrunSeconds: number; // Time past the break's allowance, 0 when none
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * The checks of one local day with its totals.
+ */
+export interface HistoryDay {
+    date: string; // YYYY-MM-DD
+    entries: HistoryEntry[];
+    workSeconds: number;
+    pauseSeconds: number;
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * Group checks by the local day they started on, newest day first and checks in order within a day.
+ */
+export function groupChecksByDay(checks: EmployeeCheck[], nowMillis: number = Date.now()): HistoryDay[] {
+    const overruns = new Map(findBreakOverruns(checks, nowMillis).map(overrun => [overrun.checkId, overrun.overrunSeconds]));
+    const days = new Map<string, HistoryDay>();
+
+    for (const check of checks) {
+        if (!check.checkIn?.date) {
+            continue;
+        }
+
+        const start = new Date(check.checkIn.date);
+        const end = check.checkOut?.date ? new Date(check.checkOut.date) : null;
+        const kind = typeof check.checkType === 'string' && check.checkType.toLowerCase() === 'pause' ? 'pause' : 'work';
+        const seconds = Math.max(0, Math.floor(((end?.getTime() ?? nowMillis) - start.getTime()) / 1000));
+
+        const date = new Intl.DateTimeFormat('en-CA').format(start);
+        let day = days.get(date);
+        if (!day) {
+            day = { date, entries: [], workSeconds: 0, pauseSeconds: 0 };
+            days.set(date, day);
+        }
+
+        day.entries.push({
+            checkId: check.id,
+            kind,
+            start: start.toISOString(),
+            end: end ? end.toISOString() : null,
+            seconds,
+            breakName: kind === 'pause' ? check.workBreak?.name ?? null : null,
+            overrunSeconds: overruns.get(check.id) ?? 0
+        });
+        if (kind === 'pause') {
+            day.pauseSeconds += seconds;
+        } else {
+            day.workSeconds += seconds;
+        }
+    }
+
+    const sorted = [...days.values()].sort((a, b) => b.date.localeCompare(a.date));
+    sorted.forEach(day => day.entries.sort((a, b) => (a.start ?? '').localeCompare(b.start ?? '')));
+    return sorted;
+}
+
+/**
+ * Days of one history page: page 1 holds the last `pageDays` days of the range, each
+ * following page the days before, so a day is never split across pages.
+ */
+export function historyPageRange(from: string, to: string, page: number, pageDays: number): { from: string; to: string; lastPage: number } {
+    const day = (date: string) => Date.parse(`${date}T00:00:00Z`) / 86400000;
+    const format = (days: number) => new Date(days * 86400000).toISOString().slice(0, 10);
+
+    const first = day(from);
+    const last = day(to);
+    const lastPage = Math.max(1, Math.ceil((last - first + 1) / pageDays));
+    const current = Math.min(Math.max(1, page), lastPage);
+    const pageTo = last - (current - 1) * pageDays;
+
+    return { from: format(Math.max(first, pageTo - pageDays + 1)), to: format(pageTo), lastPage };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it, vi } from "vitest";
+import { checkOutDeadline, detectForgottenCheckOut } from "./check-out-guard";
+import type { WorkStatus } from "./sesame-api";
+
+vi.mock("@elgato/streamdeck", () => ({ default: { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } } }));
+
+function checkedInAt(start: Date): WorkStatus {
+    return {
+        workStatus: 'online',
+        lastCheck: { checkId: 'check-1', checkInDatetime: start.toISOString(), checkOutDatetime: null }
+    } as WorkStatus;
+}
+
+describe('checkOutDeadline', () => {
+    const start = new Date(2026, 9, 19, 9, 0);
+
+    it('is null without limits', () => {
+        expect(checkOutDeadline(start, {})).toBeNull();
+    });
+
+    it('picks the earliest of the maximum length and the end of the day', () => {
+        expect(checkOutDeadline(start, { maxHours: 10, endOfDay: '18:00' })).toEqual({ at: new Date(2026, 9, 19, 18, 0), reason: 'end-of-day' });
+        expect(checkOutDeadline(start, { maxHours: 4, endOfDay: '18:00' })).toEqual({ at: new Date(2026, 9, 19, 13, 0), reason: 'limit' });
+    });
+
+    it('uses the next end of day for a check started after it', () => {
+        const late = new Date(2026, 9, 19, 20, 0);
+        expect(checkOutDeadline(late, { endOfDay: '18:00' })?.at).toEqual(new Date(2026, 9, 20, 18, 0));
+    });
+});
+
+describe('detectForgottenCheckOut', () => {
+    const start = new Date(2026, 9, 19, 9, 0);
+    const guard = { maxHours: 10 };
+    const afterDeadline = new Date(2026, 9, 19, 20, 0).getTime();
+
+    it('ignores checks within the limits and closed checks', () => {
+        expect(detectForgottenCheckOut(checkedInAt(start), guard, 0, new Date(2026, 9, 19, 12, 0).getTime())).toBeNull();
+        expect(detectForgottenCheckOut({ workStatus: 'offline', lastCheck: null } as WorkStatus, guard, 0, afterDeadline)).toBeNull();
+    });
+
+    it('proposes the last activity after the check started', () => {
+        const activity = new Date(2026, 9, 19, 17, 30).getTime();
+        const forgotten = detectForgottenCheckOut(checkedInAt(start), guard, activity, afterDeadline);
+        expect(forgotten).toMatchObject({ checkId: 'check-1', reason: 'limit', checkOutAt: new Date(activity).toISOString() });
+    });
+
+    it('falls back to the deadline without activity during the check', () => {
+        const forgotten = detectForgottenCheckOut(checkedInAt(start), guard, start.getTime() - 1000, afterDeadline);
+        expect(forgotten?.checkOutAt).toBe(new Date(2026, 9, 19, 19, 0).toISOString());
+    });
+});
@@ -0,0 +1,75 @@
+import type { WorkStatus } from "./sesame-api";
+import { toMinutes } from "./polling-scheduler";
+
+/**
+ * When an open check counts as a forgotten check-out. Unset fields are not checked.
+ */
+export interface CheckOutGuard {
+    maxHours?: number; // Longest expected check
+    endOfDay?: string; // Local "HH:mm" after which nobody should still be checked in
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * An open check that ran past the guard, with the time the check-out is proposed for.
+ */
+export interface ForgottenCheckOut {
+    checkId: string;
+    startedAt: string; // ISO timestamp of the open check
+    reason: 'limit' | 'end-of-day';
+    checkOutAt: string; // ISO timestamp of the last activity seen, sent as the check-out date
+}
+
+/**
+ * First moment the check started at `start` runs past the guard, or null without limits.
+ */
+export function checkOutDeadline(start: Date, guard: CheckOutGuard): { at: Date; reason: ForgottenCheckOut['reason'] } | null {
+    const deadlines: Array<{ at: Date; reason: ForgottenCheckOut['reason'] }> = [];
+
+    if (guard.maxHours && guard.maxHours > 0) {
+        deadlines.push({ at: new Date(start.getTime() + guard.maxHours * 3600000), reason: 'limit' });
+    }
+
+    if (guard.endOfDay) {
+        // The next end of day after the check started (a check started late runs until tomorrow's)
+        const minutes = toMinutes(guard.endOfDay);
+        const endOfDay = new Date(start);
+        endOfDay.setHours(Math.floor(minutes / 60), minutes % 60, 0, 0);
+        if (endOfDay.getTime() <= start.getTime()) {
+            endOfDay.setDate(endOfDay.getDate() + 1);
+        }
+        deadlines.push({ at: endOfDay, reason: 'end-of-day' });
+    }
+
+    return deadlines.sort((a, b) => a.at.getTime() - b.at.getTime())[0] ?? null;
+}
+
+/**
+ * The open check of `workStatus` when it ran past the guard. The check-out is proposed at the
+ * last activity seen after the check started, or at the deadline when there was none.
+ */
+export function detectForgottenCheckOut(
+    workStatus: WorkStatus,
+    guard: CheckOutGuard,
+    lastActivityMillis: number,
+    nowMillis: number = Date.now()
+): ForgottenCheckOut | null {
+    const lastCheck = workStatus.lastCheck;
+    if (workStatus.workStatus === 'offline' || !lastCheck?.checkInDatetime || lastCheck.checkOutDatetime) {
+        return null;
+    }
+
+    const start = new Date(lastCheck.checkInDatetime);
+    const deadline = checkOutDeadline(start, guard);
+    if (!deadline || Number.isNaN(start.getTime()) || deadline.at.getTime() > nowMillis) {
+        return null;
+    }
+
+    const checkOutAt = lastActivityMillis > start.getTime() ? Math.min(lastActivityMillis, nowMillis) : deadline.at.getTime();
+    return {
+        checkId: lastCheck.checkId,
+        startedAt: start.toISOString(),
+        reason: deadline.reason,
+        checkOutAt: new Date(checkOutAt).toISOString()
+    };
+}
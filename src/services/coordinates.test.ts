@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { CoordinatePreset, createHttpCoordinateProvider, resolveCoordinates, setCoordinateProvider } from "./coordinates";
+import type { HttpTransport } from "./http-transport";
+
+vi.mock("@elgato/streamdeck", () => ({ default: { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } } }));
+
+const office: CoordinatePreset = { id: 'office', name: 'Office', latitude: 40.4168, longitude: -3.7038 };
+const home: CoordinatePreset = { id: 'home', name: 'Home', latitude: 41.3874, longitude: 2.1686 };
+
+describe('resolveCoordinates', () => {
+    afterEach(() => {
+        setCoordinateProvider(null);
+    });
+
+    it("uses the key's preset, else the profile default", async () => {
+        expect(await resolveCoordinates('default', [office, home], 'home', 'office')).toEqual({ latitude: 41.3874, longitude: 2.1686 });
+        expect(await resolveCoordinates('default', [office, home], undefined, 'office')).toEqual({ latitude: 40.4168, longitude: -3.7038 });
+        expect(await resolveCoordinates('default', [], 'home')).toBeUndefined();
+    });
+
+    it('lets the installed provider override the preset', async () => {
+        const provider = vi.fn(async () => ({ latitude: 1, longitude: 2 }));
+        setCoordinateProvider(provider);
+
+        expect(await resolveCoordinates('work', [office], 'office')).toEqual({ latitude: 1, longitude: 2 });
+        expect(provider).toHaveBeenCalledWith({ profileId: 'work', preset: office });
+    });
+
+    it('falls back to the preset when the provider has nothing, answers nonsense or fails', async () => {
+        for (const provider of [async () => null, async () => ({ latitude: 200, longitude: 0 }), async () => { throw new Error('offline'); }]) {
+            setCoordinateProvider(provider);
+            expect(await resolveCoordinates('default', [office], 'office')).toEqual({ latitude: 40.4168, longitude: -3.7038 });
+        }
+    });
+});
+
+describe('createHttpCoordinateProvider', () => {
+    function transport(status: number, body: unknown): HttpTransport & { urls: string[] } {
+        const urls: string[] = [];
+        return {
+            urls,
+            request: async url => {
+                urls.push(url);
+                return new Response(JSON.stringify(body), { status });
+            }
+        };
+    }
+
+    it('asks the location service for the profile', async () => {
+        const service = transport(200, { latitude: 43.26, longitude: -2.93 });
+        const provider = createHttpCoordinateProvider('http://localhost:5000/location', service);
+
+        expect(await provider({ profileId: 'work', preset: null })).toEqual({ latitude: 43.26, longitude: -2.93 });
+        expect(service.urls).toEqual(['http://localhost:5000/location?profileId=work']);
+    });
+
+    it('returns null on an error status or an unexpected body', async () => {
+        expect(await createHttpCoordinateProvider('http://localhost:5000/location', transport(503, {}))({ profileId: 'work', preset: null })).toBeNull();
+        expect(await createHttpCoordinateProvider('http://localhost:5000/location', transport(200, { lat: 1 }))({ profileId: 'work', preset: null })).toBeNull();
+    });
+});
@@ -0,0 +1,105 @@
+import streamDeck from "@elgato/streamdeck";
+import { fetchTransport, HttpTransport } from "./http-transport";
+
+/**
+ * Location sent with a punch.
+ */
+export interface Coordinates {
+    latitude: number;
+    longitude: number;
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * Named location saved in a profile (home, office, a client site...).
+ */
+export interface CoordinatePreset extends Coordinates {
+    id: string;
+    name: string;
+}
+
+/**
+ * What a coordinate provider knows about the punch being sent.
+ */
+export interface CoordinateRequest {
+    profileId: string;
+    preset: CoordinatePreset | null; // Preset that would be used without the provider
+}
+
+/**
+ * Supplies coordinates at punch time (e.g. from a location service). Returning null falls back to the preset.
+ */
+export type CoordinateProvider = (request: CoordinateRequest) => Promise<Coordinates | null>;
+
+const PROVIDER_TIMEOUT_MS = 3000;
+
+let provider: CoordinateProvider | null = null;
+
+/**
+ * Install (or remove with null) the dynamic coordinate provider used by every profile.
+ */
+export function setCoordinateProvider(next: CoordinateProvider | null): void {
+    provider = next;
+    streamDeck.logger.info(`Coordinate provider ${next ? 'installed' : 'removed'}`);
+}
+
+/**
+ * Provider that asks a location service for `{ "latitude": ..., "longitude": ... }` with a GET to
+ * `url?profileId=...`. Anything else (an error status, a timeout, other JSON) falls back to the preset.
+ */
+export function createHttpCoordinateProvider(url: string, transport: HttpTransport = fetchTransport): CoordinateProvider {
+    return async ({ profileId }) => {
+        const target = new URL(url);
+        target.searchParams.set('profileId', profileId);
+        const response = await transport.request(target.toString(), { signal: AbortSignal.timeout(PROVIDER_TIMEOUT_MS) });
+        if (!response.ok) {
+            streamDeck.logger.warn(`Coordinate provider answered ${response.status}, using preset`);
+            return null;
+        }
+        const body = await response.json() as Partial<Coordinates>;
+        return isValidCoordinates(body) ? body : null;
+    };
+}
+
+/**
+ * Provider from the environment: SESAME_COORDINATES_URL=http://localhost:5000/location asks that
+ * location service at every punch. Null when it is not set (presets only).
+ */
+export function resolveCoordinateProvider(): CoordinateProvider | null {
+    const url = process.env.SESAME_COORDINATES_URL;
+    return url ? createHttpCoordinateProvider(url) : null;
+}
+
+/**
+ * Pick the key's preset, else the profile default, and let the provider override it.
+ * Returns undefined when no location is configured at all.
+ */
+export async function resolveCoordinates(
+    profileId: string,
+    presets: CoordinatePreset[],
+    presetId?: string,
+    defaultPresetId?: string
+): Promise<Coordinates | undefined> {
+    const preset = presets.find(p => p.id === presetId) ?? presets.find(p => p.id === defaultPresetId) ?? null;
+
+    if (provider) {
+        try {
+            const provided = await provider({ profileId, preset });
+            if (provided && isValidCoordinates(provided)) {
+                return { latitude: provided.latitude, longitude: provided.longitude };
+            }
+        } catch (error) {
+            streamDeck.logger.error('Coordinate provider failed, using preset:', error);
+        }
+    }
+
+    return preset ? { latitude: preset.latitude, longitude: preset.longitude } : undefined;
+}
+
+/**
+ * Latitude/longitude are numbers within range.
+ */
+export function isValidCoordinates(value: Partial<Coordinates>): value is Coordinates {
+    return typeof value.latitude === 'number' && typeof value.longitude === 'number'
+        && Math.abs(value.latitude) <= 90 && Math.abs(value.longitude) <= 180;
+}
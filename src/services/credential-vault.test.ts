@@ -0,0 +1,47 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { CredentialVault } from "./credential-vault";
+
+vi.mock("@elgato/streamdeck", () => ({ default: { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } } }));
+
+describe('CredentialVault', () => {
+    let folder: string;
+    let keyFile: string;
+
+    beforeEach(async () => {
+        folder = await mkdtemp(path.join(os.tmpdir(), 'sesame-vault-'));
+        keyFile = path.join(folder, 'keys', 'vault.key');
+    });
+
+    afterEach(async () => {
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    it('round-trips secrets through a key file only the user can read', async () => {
+        const encrypted = new CredentialVault(keyFile).encrypt({ password: 'secret', token: 'token-1' });
+
+        expect(JSON.stringify(encrypted)).not.toContain('secret');
+        expect(new CredentialVault(keyFile).decrypt(encrypted)).toEqual({ password: 'secret', token: 'token-1' });
+        expect((await stat(keyFile)).mode & 0o777).toBe(0o600);
+    });
+
+    it('stores nothing without secrets', () => {
+        expect(new CredentialVault(keyFile).encrypt({})).toBeUndefined();
+        expect(new CredentialVault(keyFile).decrypt(undefined)).toEqual({});
+    });
+
+    it('cannot decrypt with another key', () => {
+        const encrypted = new CredentialVault(keyFile).encrypt({ token: 'token-1' });
+        expect(new CredentialVault(path.join(folder, 'other.key')).decrypt(encrypted)).toEqual({});
+    });
+
+    it('never replaces a key file that does not hold a key', async () => {
+        new CredentialVault(keyFile).encrypt({ token: 'token-1' });
+        await writeFile(keyFile, 'not a key');
+
+        expect(() => new CredentialVault(keyFile).encrypt({ token: 'token-2' })).toThrow(/does not hold a 32-byte key/);
+        expect(await readFile(keyFile, 'utf8')).toBe('not a key');
+    });
+});
@@ -0,0 +1,123 @@
+import { createCipheriv, createDecipheriv, createSecretKey, KeyObject, randomBytes } from "node:crypto";
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import streamDeck from "@elgato/streamdeck";
+
+/**
+ * Secrets kept out of the plaintext global settings.
+ */
+export interface StoredSecrets {
+    password?: string;
+    token?: string;
+}
+
+/**
+ * AES-256-GCM payload as persisted in global settings (all fields base64).
+ */
+export interface EncryptedSecrets {
+    v: 1; // Payload format
+    iv: string;
+    tag: string;
+    data: string;
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * Encrypts credentials at rest with a random key kept in its own file (readable by the
+ * OS user only) instead of the Stream Deck settings. A settings file that is copied,
+ * backed up or attached to a bug report is useless without it; anyone who can read the
+ * user's home directory can still read both, as this is not an OS keychain.
+ */
+export class CredentialVault {
+    private static readonly ALGORITHM = 'aes-256-gcm';
+
+    private key: KeyObject | null = null;
+
+    constructor(private readonly keyFile: string) {}
+
+    /**
+     * Encrypt the given secrets. Returns undefined when there is nothing to store.
+     */
+    encrypt(secrets: StoredSecrets): EncryptedSecrets | undefined {
+        if (!secrets.password && !secrets.token) {
+            return undefined;
+        }
+
+        const iv = randomBytes(12).toString('base64');
+        const cipher = createCipheriv(CredentialVault.ALGORITHM, this.getKey(), Uint8Array.from(Buffer.from(iv, 'base64')));
+        const data = cipher.update(JSON.stringify(secrets), 'utf8', 'base64') + cipher.final('base64');
+
+        return {
+            v: 1,
+            iv,
+            tag: cipher.getAuthTag().toString('base64'),
+            data
+        };
+    }
+
+    /**
+     * Decrypt stored secrets. Returns an empty object if the payload is missing or the key
+     * that encrypted it is gone (the user simply has to log in again).
+     */
+    decrypt(encrypted: EncryptedSecrets | undefined): StoredSecrets {
+        if (!encrypted) {
+            return {};
+        }
+
+        try {
+            const decipher = createDecipheriv(CredentialVault.ALGORITHM, this.getKey(), Uint8Array.from(Buffer.from(encrypted.iv, 'base64')));
+            decipher.setAuthTag(Uint8Array.from(Buffer.from(encrypted.tag, 'base64')));
+            const data = decipher.update(encrypted.data, 'base64', 'utf8') + decipher.final('utf8');
+            return JSON.parse(data) as StoredSecrets;
+        } catch (error) {
+            streamDeck.logger.error('Credential vault: unable to decrypt stored credentials:', error);
+            return {};
+        }
+    }
+
+    /**
+     * Load (once) the key file, creating it with a random key on first use. A key file that
+     * cannot be read is never replaced, as that would lose every stored credential.
+     */
+    private getKey(): KeyObject {
+        if (!this.key) {
+            let key = this.readKeyFile();
+            if (!key) {
+                key = randomBytes(32);
+                mkdirSync(path.dirname(this.keyFile), { recursive: true, mode: 0o700 });
+                writeFileSync(this.keyFile, key.toString('base64'), { mode: 0o600 });
+                streamDeck.logger.info(`Credential vault: created key file ${this.keyFile}`);
+            }
+            this.key = createSecretKey(Uint8Array.from(key));
+        }
+        return this.key;
+    }
+
+    /**
+     * The key in the key file, or null when there is no key file yet
+     */
+    private readKeyFile(): Buffer | null {
+        let content: string;
+        try {
+            content = readFileSync(this.keyFile, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            streamDeck.logger.error(`Credential vault: cannot read key file ${this.keyFile}:`, error);
+            throw error;
+        }
+
+        const key = Buffer.from(content.trim(), 'base64');
+        if (key.length !== 32) {
+            const message = `Credential vault: key file ${this.keyFile} does not hold a 32-byte key; move it away to start over with a new one`;
+            streamDeck.logger.error(message);
+            throw new Error(message);
+        }
+        return key;
+    }
+}
+
+// Key in the home folder, outside the Stream Deck settings
+export const credentialVault = new CredentialVault(path.join(os.homedir(), '.sesame-checker', 'vault.key'));
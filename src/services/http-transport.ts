@@ -0,0 +1,49 @@
+import streamDeck from "@elgato/streamdeck";
+
+/**
+ * HTTP transport used by {@link SesameAPI} for every outgoing request.
+ * Defaults to the global fetch, but can be swapped for the bundled mock server.
+ */
+export interface HttpTransport {
+    request(url: string, init?: RequestInit): Promise<Response>;
+}
+
+/**
+ * Default transport backed by the global fetch.
+ */
+export const fetchTransport: HttpTransport = {
+    request: (url, init) => fetch(url, init)
+};
+
+/**
+ * Transport that sends every request to another origin (e.g. http://localhost:4010),
+ * keeping path and query untouched. Used to point the plugin at a mock server over HTTP.
+ */
+export function createRedirectTransport(origin: string, inner: HttpTransport = fetchTransport): HttpTransport {
+    const target = new URL(origin);
+    return {
+        request: (url, init) => {
+            const redirected = new URL(url);
+            redirected.protocol = target.protocol;
+            redirected.host = target.host;
+            return inner.request(redirected.toString(), init);
+        }
+    };
+}
+
+/**
+ * Pick the transport from the environment:
+ * - SESAME_MOCK_URL=http://localhost:4010 sends all requests to a mock server started with `npm run mock`
+ * - otherwise the real Sesame hosts are used through fetch
+ *
+ * The mock server itself is never imported here, so it stays out of the plugin bundle.
+ */
+export function resolveTransport(): HttpTransport {
+    const mockUrl = process.env.SESAME_MOCK_URL;
+    if (mockUrl) {
+        streamDeck.logger.warn(`Using mock Sesame server at ${mockUrl}`);
+        return createRedirectTransport(mockUrl);
+    }
+
+    return fetchTransport;
+}
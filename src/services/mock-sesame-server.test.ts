@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { MockSesameServer } from "./mock-sesame-server";
+
+const BASE = 'https://back-eu1.sesametime.com/api/v3';
+
+describe('MockSesameServer', () => {
+    let server: MockSesameServer;
+    let token: string;
+
+    beforeEach(() => {
+        server = new MockSesameServer();
+        token = (server.handle('POST', `${BASE}/security/login`, null, JSON.stringify({ email: 'demo@example.com', password: 'demo' })).payload as any).data;
+    });
+
+    it('rejects a wrong password and unauthenticated calls', () => {
+        expect(server.handle('POST', `${BASE}/security/login`, null, JSON.stringify({ email: 'demo@example.com', password: 'nope' })).status).toBe(401);
+        expect(server.handle('GET', `${BASE}/security/me`, null).status).toBe(401);
+    });
+
+    it('follows the work status through punches', () => {
+        const punch = (resource: string, body: object = {}) => server.handle('POST', `${BASE}/employees/mock-employee-1/${resource}`, `Bearer ${token}`, JSON.stringify(body));
+        const status = () => (server.handle('GET', `${BASE}/security/me`, `Bearer ${token}`).payload as any).data[0].workStatus;
+
+        expect(punch('check-in').status).toBe(200);
+        expect(status()).toBe('online');
+        expect(punch('pause', { workBreakId: 'nope' }).status).toBe(422);
+        expect(punch('check-out').status).toBe(200);
+        expect(status()).toBe('offline');
+    });
+
+    it('refuses punches the current status does not allow', () => {
+        expect(server.handle('POST', `${BASE}/employees/mock-employee-1/check-out`, `Bearer ${token}`, '{}').status).toBe(422);
+    });
+
+    it('answers 401 once its tokens expire', () => {
+        server.expireTokens();
+        expect(server.handle('GET', `${BASE}/security/me`, `Bearer ${token}`).status).toBe(401);
+    });
+
+    it('pages the checks 10 at a time unless asked otherwise', () => {
+        for (let day = 1; day <= 12; day++) {
+            server.handle('POST', `${BASE}/employees/mock-employee-1/check-in`, `Bearer ${token}`, JSON.stringify({ date: new Date(2026, 9, day, 9, 0).toISOString() }));
+            server.handle('POST', `${BASE}/employees/mock-employee-1/check-out`, `Bearer ${token}`, JSON.stringify({ date: new Date(2026, 9, day, 17, 0).toISOString() }));
+        }
+
+        const { status, payload } = server.handle('GET', `${BASE}/employees/mock-employee-1/checks?from=2026-10-01&to=2026-10-19`, `Bearer ${token}`) as { status: number; payload: any };
+
+        expect(status).toBe(200);
+        expect(payload.data).toHaveLength(10);
+        expect(payload.meta).toMatchObject({ currentPage: 1, lastPage: 2, total: 12, perPage: 10 });
+    });
+});
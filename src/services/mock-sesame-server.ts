@@ -0,0 +1,536 @@
+import { createServer, IncomingMessage, Server } from "node:http";
+import type { HttpTransport } from "./http-transport";
+import { Coordinates, isValidCoordinates } from "./coordinates";
+import type { WorkBreak, WorkCheckType, WorkStatusType } from "./sesame-api";
+
+/**
+ * Stateful in-memory emulation of the Sesame endpoints used by the plugin.
+ * Routes on the request path only, so any *.sesametime.com host maps here.
+ * Use {@link MockSesameServer.transport} in-process, or {@link MockSesameServer.listen} over HTTP.
+ */
+export class MockSesameServer {
+    private readonly options: Required<MockSesameOptions>;
+    private readonly tokens: Set<string> = new Set();
+    private checks: MockCheck[] = [];
+    private workStatus: WorkStatusType = 'offline';
+    private nextId = 1;
+
+    constructor(options: MockSesameOptions = {}) {
+        this.options = {
+            password: options.password ?? 'demo',
+            employeeId: options.employeeId ?? 'mock-employee-1',
+            companyId: options.companyId ?? 'mock-company-1',
+            fullName: options.fullName ?? 'Demo User',
+            secondsToWork: options.secondsToWork ?? 8 * 3600,
+            workBreaks: options.workBreaks ?? DEFAULT_WORK_BREAKS,
+            extraCompanies: options.extraCompanies ?? [],
+            colleagues: options.colleagues ?? defaultColleagues()
+        };
+    }
+
+    /**
+     * Transport that answers every request from this server without touching the network.
+     */
+    get transport(): HttpTransport {
+        return {
+            request: async (url, init = {}) => {
+                const body = typeof init.body === 'string' ? init.body : undefined;
+                const { status, payload } = this.handle(init.method ?? 'GET', url, readHeader(init.headers, 'authorization'), body);
+                return new Response(JSON.stringify(payload), {
+                    status,
+                    headers: { 'Content-Type': 'application/json' }
+                });
+            }
+        };
+    }
+
+    /**
+     * Serve the mock over HTTP, e.g. for SESAME_MOCK_URL=http://localhost:4010.
+     */
+    listen(port = 4010): Promise<Server> {
+        const server = createServer(async (req, res) => {
+            const body = await readBody(req);
+            const { status, payload } = this.handle(req.method ?? 'GET', `http://localhost${req.url ?? '/'}`, req.headers.authorization ?? null, body);
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(payload));
+        });
+
+        return new Promise(resolve => server.listen(port, () => resolve(server)));
+    }
+
+    /**
+     * Invalidate every issued token, so the next authenticated call gets a 401.
+     */
+    expireTokens(): void {
+        this.tokens.clear();
+    }
+
+    /**
+     * Reset all punches and return the employee to offline.
+     */
+    reset(): void {
+        this.checks = [];
+        this.workStatus = 'offline';
+    }
+
+    /**
+     * Route a request and return the status code and JSON payload.
+     */
+    handle(method: string, url: string, authorization: string | null, body?: string): MockResult {
+        const { pathname, searchParams } = new URL(url);
+        const path = pathname.replace(/^\/api\/v3/, '');
+        const json = parseJson(body);
+
+        if (method === 'POST' && path.endsWith('/pre-login')) {
+            return ok({ region: 'eu1', backSubdomain: 'back-eu1', backMobileSubdomain: 'back-mobile-eu1' });
+        }
+
+        if (method === 'POST' && path === '/security/login') {
+            if (!json.email || json.password !== this.options.password) {
+                return error(401, 'invalid_credentials');
+            }
+            const token = `mock-token-${this.nextId++}`;
+            this.tokens.add(token);
+            return ok(token);
+        }
+
+        const token = authorization?.replace(/^Bearer\s+/i, '');
+        if (!token || !this.tokens.has(token)) {
+            return error(401, 'Token de autenticación inválido o expirado');
+        }
+
+        if (method === 'GET' && path === '/security/me') {
+            return ok([
+                this.employeeRecord(),
+                ...this.options.extraCompanies.map(company => ({
+                    ...this.employeeRecord(),
+                    id: company.employeeId,
+                    company: { id: company.companyId, name: company.companyName }
+                }))
+            ]);
+        }
+
+        if (method === 'GET' && (path === '/whosin-online' || path === '/whosin-offline')) {
+            const online = path === '/whosin-online';
+            const colleagues = this.options.colleagues.filter(c => (c.workStatus !== 'offline') === online);
+            const page = Number(searchParams.get('page') ?? 1);
+            const limit = Number(searchParams.get('limit') ?? 20);
+            return ok(
+                colleagues.slice((page - 1) * limit, page * limit).map(c => this.colleagueRecord(c)),
+                { currentPage: page, lastPage: Math.max(1, Math.ceil(colleagues.length / limit)), total: colleagues.length, perPage: limit }
+            );
+        }
+
+        const company = path.match(/^\/companies\/([^/]+)\/working-employees$/);
+        if (method === 'GET' && company) {
+            const working = this.options.colleagues.filter(c => c.workStatus !== 'offline');
+            return ok(working.map(c => ({
+                employeeId: c.employeeId,
+                fullName: c.fullName,
+                workStatus: c.workStatus,
+                checkInTime: c.checkInTime,
+                ...(c.pauseStartTime ? { pauseStartTime: c.pauseStartTime } : {})
+            })));
+        }
+
+        if (method === 'POST' && path === '/employees-statistics') {
+            return ok(this.statistics(json.from ?? null, json.to ?? null));
+        }
+
+        const match = path.match(/^\/employees\/([^/]+)\/(.+)$/);
+        if (!match) {
+            return error(404, `Unknown endpoint ${method} ${path}`);
+        }
+
+        const [, employeeId, resource] = match;
+        const knownEmployee = employeeId === this.options.employeeId
+            || this.options.extraCompanies.some(company => company.employeeId === employeeId);
+        if (!knownEmployee) {
+            return error(404, 'Employee not found');
+        }
+
+        if (method === 'POST' && resource === 'check-in') {
+            return this.checkIn(json);
+        }
+        if (method === 'POST' && resource === 'check-out') {
+            return this.checkOut(json);
+        }
+        if (method === 'POST' && resource === 'pause') {
+            return this.pause(json);
+        }
+        if (method === 'GET' && resource === 'work-breaks-by-employee') {
+            return ok(this.options.workBreaks, pageMeta(this.options.workBreaks.length));
+        }
+        if (method === 'GET' && resource === 'work-check-types') {
+            return ok(DEFAULT_WORK_CHECK_TYPES, pageMeta(DEFAULT_WORK_CHECK_TYPES.length));
+        }
+        if (method === 'GET' && resource === 'daily-computed-hour-stats') {
+            const stats = this.dailyStats(employeeId, searchParams.get('from'), searchParams.get('to'));
+            return ok(stats, pageMeta(stats.length));
+        }
+        if (method === 'GET' && resource === 'checks') {
+            // Paginated like Sesame: first page and 10 checks unless asked otherwise
+            const checks = this.checksBetween(searchParams.get('from'), searchParams.get('to'));
+            const page = Number(searchParams.get('page') ?? 1);
+            const limit = Number(searchParams.get('limit') ?? 10);
+            return ok(
+                checks.slice((page - 1) * limit, page * limit).map(check => this.serializeCheck(check)),
+                { currentPage: page, lastPage: Math.max(1, Math.ceil(checks.length / limit)), total: checks.length, perPage: limit }
+            );
+        }
+
+        return error(404, `Unknown endpoint ${method} ${path}`);
+    }
+
+    private checkIn(json: any): MockResult {
+        if (this.workStatus === 'online') {
+            return error(422, 'already_checked_in');
+        }
+
+        const date = json.date ?? new Date().toISOString();
+        this.closeOpenCheck(date);
+        const check = this.openCheck('work', date, {
+            workCheckTypeId: json.workCheckTypeId ?? null,
+            coordinates: isValidCoordinates(json.coordinates ?? {}) ? json.coordinates : null
+        });
+        this.workStatus = 'online';
+        return ok(this.checkResponse(check));
+    }
+
+    private checkOut(json: any): MockResult {
+        if (this.workStatus === 'offline') {
+            return error(422, 'not_checked_in');
+        }
+
+        const date = json.date ?? new Date().toISOString();
+        const check = this.closeOpenCheck(date);
+        this.workStatus = 'offline';
+        return ok(this.checkResponse(check!));
+    }
+
+    private pause(json: any): MockResult {
+        if (this.workStatus !== 'online') {
+            return error(422, 'not_working');
+        }
+
+        const workBreak = this.options.workBreaks.find(wb => wb.id === json.workBreakId);
+        if (!workBreak) {
+            return error(422, 'work_break_not_found');
+        }
+
+        const date = json.date ?? new Date().toISOString();
+        this.closeOpenCheck(date);
+        const check = this.openCheck('pause', date, { workBreak });
+        this.workStatus = 'paused';
+
+        const worked = this.workedSeconds();
+        return ok({
+            ...this.serializeCheck(check),
+            canDelete: true,
+            canEditCheckInORCheckOut: true,
+            employeeId: this.options.employeeId,
+            workStatus: this.workStatus,
+            computedHourStat: {
+                totalSeconds: worked,
+                secondsWorked: worked,
+                secondsToWork: this.options.secondsToWork
+            }
+        });
+    }
+
+    private openCheck(checkType: 'work' | 'pause', date: string, extra: Partial<MockCheck>): MockCheck {
+        const check: MockCheck = {
+            id: `mock-check-${this.nextId++}`,
+            checkType,
+            checkIn: date,
+            checkOut: null,
+            workCheckTypeId: null,
+            workBreak: null,
+            coordinates: null,
+            ...extra
+        };
+        this.checks.push(check);
+        return check;
+    }
+
+    private closeOpenCheck(date: string): MockCheck | null {
+        const open = this.checks.find(check => check.checkOut === null) ?? null;
+        if (open) {
+            open.checkOut = date;
+        }
+        return open;
+    }
+
+    private workedSeconds(): number {
+        const now = Date.now();
+        return this.checks
+            .filter(check => check.checkType === 'work')
+            .reduce((total, check) => total + secondsBetween(check.checkIn, check.checkOut, now), 0);
+    }
+
+    /**
+     * One computed hour stat per day of the range (today when no range is given).
+     */
+    private dailyStats(employeeId: string, from: string | null, to: string | null): any[] {
+        const now = Date.now();
+        const stats: any[] = [];
+        const day = new Date(`${from ?? formatDay(new Date())}T12:00:00`);
+        const last = to ?? from ?? formatDay(new Date());
+
+        while (formatDay(day) <= last) {
+            const date = formatDay(day);
+            const checks = this.checksBetween(date, date);
+            const sum = (type: string) => checks
+                .filter(check => check.checkType === type)
+                .reduce((total, check) => total + secondsBetween(check.checkIn, check.checkOut, now), 0);
+            const worked = sum('work');
+            const secondsToWork = day.getDay() !== 0 && day.getDay() !== 6 ? this.options.secondsToWork : 0;
+
+            stats.push({
+                date,
+                employeeId,
+                workedSeconds: worked,
+                secondsWorked: worked,
+                secondsToWork,
+                breakSeconds: sum('pause'),
+                overtimeSeconds: Math.max(0, worked - secondsToWork),
+                balance: worked - secondsToWork
+            });
+            day.setDate(day.getDate() + 1);
+        }
+
+        return stats;
+    }
+
+    /**
+     * Worked seconds in a date range against the daily target of every weekday in it.
+     */
+    private statistics(from: string | null, to: string | null): any {
+        const now = Date.now();
+        const secondsWorked = this.checksBetween(from, to)
+            .filter(check => check.checkType === 'work')
+            .reduce((total, check) => total + secondsBetween(check.checkIn, check.checkOut, now), 0);
+
+        let workdays = 0;
+        const day = new Date(`${from ?? formatDay(new Date())}T12:00:00`);
+        const last = to ?? formatDay(new Date());
+        while (formatDay(day) <= last) {
+            if (day.getDay() !== 0 && day.getDay() !== 6) {
+                workdays++;
+            }
+            day.setDate(day.getDate() + 1);
+        }
+
+        return { secondsWorked, secondsToWork: workdays * this.options.secondsToWork };
+    }
+
+    private checksBetween(from: string | null, to: string | null): MockCheck[] {
+        return this.checks.filter(check => {
+            const day = formatDay(new Date(check.checkIn));
+            return (!from || day >= from) && (!to || day <= to);
+        });
+    }
+
+    private employeeRecord(): any {
+        const last = this.checks[this.checks.length - 1];
+        return {
+            id: this.options.employeeId,
+            firstName: this.options.fullName.split(' ')[0],
+            lastName: this.options.fullName.split(' ').slice(1).join(' '),
+            company: { id: this.options.companyId, name: 'Mock Company' },
+            workStatus: this.workStatus,
+            lastCheck: last ? {
+                checkId: last.id,
+                checkInCoordinates: last.coordinates,
+                checkInDatetime: last.checkIn,
+                checkInWorkCheckTypeId: last.workCheckTypeId,
+                checkOutCoordinates: null,
+                checkOutDatetime: last.checkOut,
+                checkOutWorkCheckTypeId: null,
+                workStatus: this.workStatus
+            } : null
+        };
+    }
+
+    private colleagueRecord(colleague: MockColleague): any {
+        return {
+            id: colleague.employeeId,
+            firstName: colleague.fullName.split(' ')[0],
+            lastName: colleague.fullName.split(' ').slice(1).join(' '),
+            workStatus: colleague.workStatus,
+            lastCheck: colleague.checkInTime
+                ? { checkInDatetime: colleague.checkInTime, checkOutDatetime: colleague.checkOutTime ?? null }
+                : null
+        };
+    }
+
+    private checkResponse(check: MockCheck): any {
+        return {
+            id: check.id,
+            employeeId: this.options.employeeId,
+            workStatus: this.workStatus,
+            checkInDatetime: check.checkIn
+        };
+    }
+
+    private serializeCheck(check: MockCheck): any {
+        return {
+            id: check.id,
+            checkType: check.checkType,
+            accumulatedSeconds: check.checkOut ? secondsBetween(check.checkIn, check.checkOut, Date.now()) : 0,
+            checkIn: { date: check.checkIn, timezone: 'Europe/Madrid' },
+            checkOut: check.checkOut ? { date: check.checkOut, timezone: 'Europe/Madrid' } : null,
+            workBreakId: check.workBreak?.id ?? null,
+            workBreak: check.workBreak
+        };
+    }
+}
+
+/**
+ * Options for {@link MockSesameServer}. Any email is accepted with the configured password.
+ */
+export interface MockSesameOptions {
+    password?: string;
+    employeeId?: string;
+    companyId?: string;
+    fullName?: string;
+    secondsToWork?: number;
+    workBreaks?: WorkBreak[];
+    extraCompanies?: MockCompany[]; // Further employee records of the same account (punch state is shared)
+    colleagues?: MockColleague[]; // Returned by the whos-in and working-employees endpoints
+}
+
+/**
+ * Additional employee/company record returned by /security/me.
+ */
+export interface MockCompany {
+    employeeId: string;
+    companyId: string;
+    companyName: string;
+}
+
+/**
+ * Colleague listed by the team presence endpoints.
+ */
+export interface MockColleague {
+    employeeId: string;
+    fullName: string;
+    workStatus: WorkStatusType;
+    checkInTime: string | null;
+    pauseStartTime?: string | null;
+    checkOutTime?: string | null;
+}
+
+interface MockResult {
+    status: number;
+    payload: unknown;
+}
+
+interface MockCheck {
+    id: string;
+    checkType: 'work' | 'pause';
+    checkIn: string;
+    checkOut: string | null;
+    workCheckTypeId: string | null;
+    workBreak: WorkBreak | null;
+    coordinates: Coordinates | null;
+}
+
+const DEFAULT_WORK_BREAKS: WorkBreak[] = [
+    {
+        id: 'mock-break-coffee',
+        name: 'Café',
+        color: 'ssm-coral',
+        icon: 'coffee',
+        remunerated: true,
+        breakMinutes: 15,
+        automatic: false,
+        active: true,
+        startTime: '10:30',
+        endTime: '11:30',
+        weekdays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+    },
+    {
+        id: 'mock-break-lunch',
+        name: 'Comida',
+        color: 'ssm-lime',
+        icon: 'food',
+        remunerated: false,
+        breakMinutes: 60,
+        automatic: false,
+        active: true,
+        startTime: '13:30',
+        endTime: '15:30',
+        weekdays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday']
+    }
+];
+
+const DEFAULT_WORK_CHECK_TYPES: WorkCheckType[] = [
+    { id: 'mock-type-office', name: 'Oficina', color: 'ssm-turquoise', icon: 'building' },
+    { id: 'mock-type-remote', name: 'Remoto', color: 'ssm-light-indigo', icon: 'home' },
+    { id: 'mock-type-client', name: 'Visita cliente', color: 'ssm-banana', icon: 'briefcase' }
+];
+
+function defaultColleagues(): MockColleague[] {
+    const today = (hours: number, minutes: number) => {
+        const date = new Date();
+        date.setHours(hours, minutes, 0, 0);
+        return date.toISOString();
+    };
+
+    return [
+        { employeeId: 'mock-colleague-1', fullName: 'Lucía Martín', workStatus: 'online', checkInTime: today(8, 2) },
+        { employeeId: 'mock-colleague-2', fullName: 'Javier Ruiz', workStatus: 'online', checkInTime: today(8, 45) },
+        { employeeId: 'mock-colleague-3', fullName: 'Marta Gómez', workStatus: 'paused', checkInTime: today(9, 10), pauseStartTime: today(10, 30) },
+        { employeeId: 'mock-colleague-4', fullName: 'Carlos Navarro', workStatus: 'offline', checkInTime: today(7, 0), checkOutTime: today(7, 30) }
+    ];
+}
+
+function ok(data: unknown, meta?: unknown): MockResult {
+    return { status: 200, payload: meta ? { data, meta } : { data } };
+}
+
+function error(status: number, message: string): MockResult {
+    return { status, payload: { error: { code: status, message, statusCode: status } } };
+}
+
+function pageMeta(total: number) {
+    return { currentPage: 1, lastPage: 1, total, perPage: Math.max(total, 1) };
+}
+
+function parseJson(body?: string): any {
+    if (!body) {
+        return {};
+    }
+    try {
+        return JSON.parse(body);
+    } catch {
+        return {};
+    }
+}
+
+function readHeader(headers: RequestInit["headers"], name: string): string | null {
+    if (!headers) {
+        return null;
+    }
+    return new Headers(headers).get(name);
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.setEncoding('utf8');
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function secondsBetween(start: string, end: string | null, nowMillis: number): number {
+    const endMillis = end ? new Date(end).getTime() : nowMillis;
+    return Math.max(0, Math.floor((endMillis - new Date(start).getTime()) / 1000));
+}
+
+function formatDay(date: Date): string {
+    return new Intl.DateTimeFormat('en-CA').format(date);
+}
@@ -0,0 +1,121 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { PollingScheduler, toMinutes } from "./polling-scheduler";
+import type { WorkStatusType } from "./sesame-api";
+
+vi.mock("@elgato/streamdeck", () => ({ default: { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } } }));
+
+const MONDAY_10AM = new Date(2026, 9, 19, 10, 0);
+const OFFICE_HOURS = { start: '09:00', end: '18:00', weekdays: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'] };
+
+describe('PollingScheduler', () => {
+    let status: WorkStatusType | null;
+    let poll: ReturnType<typeof vi.fn<() => Promise<WorkStatusType | null>>>;
+    let scheduler: PollingScheduler;
+
+    beforeEach(() => {
+        vi.useFakeTimers({ now: MONDAY_10AM });
+        status = 'online';
+        poll = vi.fn(async () => status);
+        scheduler = new PollingScheduler(poll);
+    });
+
+    afterEach(() => {
+        scheduler.stop();
+        vi.useRealTimers();
+    });
+
+    /**
+     * Start with one visible key and let the first poll settle
+     */
+    async function started(): Promise<void> {
+        scheduler.keyAppeared();
+        scheduler.start();
+        await vi.advanceTimersByTimeAsync(0);
+    }
+
+    it('polls every 30 seconds while working', async () => {
+        await started();
+
+        expect(poll).toHaveBeenCalledTimes(1);
+        expect(scheduler.nextDelay()).toBe(30000);
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(poll).toHaveBeenCalledTimes(2);
+    });
+
+    it('polls fast for two minutes after a punch', async () => {
+        await started();
+
+        scheduler.notePunch();
+        expect(scheduler.nextDelay()).toBe(5000);
+        expect(scheduler.nextDelay(Date.now() + 2 * 60000 + 1)).toBe(30000);
+    });
+
+    it('polls fast around the end of the break', async () => {
+        status = 'paused';
+        await started();
+
+        scheduler.setBreakEnd(new Date(Date.now() + 60000));
+        expect(scheduler.nextDelay()).toBe(5000);
+        scheduler.setBreakEnd(new Date(Date.now() + 10 * 60000));
+        expect(scheduler.nextDelay()).toBe(30000);
+    });
+
+    it('backs off exponentially on errors, up to ten minutes, and recovers', async () => {
+        status = null;
+        await started();
+
+        const delays = [scheduler.nextDelay()];
+        for (let attempt = 0; attempt < 6; attempt++) {
+            await vi.advanceTimersByTimeAsync(delays[delays.length - 1]);
+            delays.push(scheduler.nextDelay());
+        }
+        expect(delays).toEqual([30000, 60000, 120000, 240000, 480000, 600000, 600000]);
+
+        status = 'online';
+        await vi.advanceTimersByTimeAsync(600000);
+        expect(scheduler.nextDelay()).toBe(30000);
+    });
+
+    it('idles outside working hours only while checked out', async () => {
+        status = 'offline';
+        scheduler.setWorkingHours(OFFICE_HOURS);
+        await started();
+
+        expect(scheduler.nextDelay()).toBe(30000);
+        expect(scheduler.nextDelay(new Date(2026, 9, 19, 22, 0).getTime())).toBe(15 * 60000);
+        expect(scheduler.nextDelay(new Date(2026, 9, 18, 10, 0).getTime())).toBe(15 * 60000); // Sunday
+
+        status = 'online';
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(scheduler.nextDelay(new Date(2026, 9, 19, 22, 0).getTime())).toBe(30000);
+    });
+
+    it('suspends while no key is visible and resumes when one appears', async () => {
+        scheduler.start();
+        await vi.advanceTimersByTimeAsync(60000);
+        expect(poll).not.toHaveBeenCalled();
+
+        scheduler.keyAppeared();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(poll).toHaveBeenCalledTimes(1);
+
+        scheduler.keyDisappeared();
+        await vi.advanceTimersByTimeAsync(10 * 60000);
+        expect(poll).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not poll after being stopped', async () => {
+        await started();
+        scheduler.stop();
+
+        await vi.advanceTimersByTimeAsync(10 * 60000);
+        expect(poll).toHaveBeenCalledTimes(1);
+    });
+});
+
+describe('toMinutes', () => {
+    it('reads local HH:mm times', () => {
+        expect(toMinutes('09:30')).toBe(570);
+        expect(toMinutes('18')).toBe(1080);
+    });
+});
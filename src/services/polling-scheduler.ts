@@ -0,0 +1,206 @@
+import streamDeck from "@elgato/streamdeck";
+import type { WorkStatusType } from "./sesame-api";
+
+/**
+ * Daily window in which the employee is expected to punch. Times are local "HH:mm".
+ */
+export interface WorkingHours {
+    start: string;
+    end: string;
+    weekdays: string[]; // 'monday'...'sunday', same naming as WorkBreak.weekdays
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * One poll of the work status. Resolves with the status, or null when the request failed.
+ */
+export type StatusPoll = () => Promise<WorkStatusType | null>;
+
+/**
+ * Weekday names indexed by Date.getDay(), as used by WorkBreak.weekdays.
+ */
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+/**
+ * Schedules work status polls with an interval that follows the current situation:
+ * fast right after a punch or near the end of a break, exponential backoff on errors,
+ * idle outside working hours and fully suspended while no key is visible.
+ */
+export class PollingScheduler {
+    private static readonly NORMAL_INTERVAL_MS = 30000;
+    private static readonly FAST_INTERVAL_MS = 5000;
+    private static readonly IDLE_INTERVAL_MS = 15 * 60000;
+    private static readonly MAX_BACKOFF_MS = 10 * 60000;
+    private static readonly FAST_WINDOW_MS = 2 * 60000; // Fast polling after a punch and around a break end
+
+    private timer: NodeJS.Timeout | null = null;
+    private running = false;
+    private polling = false;
+    private visibleKeys = 0;
+    private consecutiveErrors = 0;
+    private fastUntil = 0;
+    private breakEndsAt: number | null = null;
+    private lastStatus: WorkStatusType | null = null;
+    private workingHours: WorkingHours | null = null;
+
+    constructor(private readonly poll: StatusPoll) {}
+
+    /**
+     * Start polling (immediately if a key is visible).
+     */
+    start(): void {
+        this.running = true;
+        this.consecutiveErrors = 0;
+        streamDeck.logger.info('Polling scheduler started');
+        this.pollNow();
+    }
+
+    /**
+     * Stop polling until {@link start} is called again.
+     */
+    stop(): void {
+        this.running = false;
+        this.clearTimer();
+        streamDeck.logger.info('Polling scheduler stopped');
+    }
+
+    /**
+     * A key of the plugin became visible. Polls right away when it is the first one.
+     */
+    keyAppeared(): void {
+        this.visibleKeys++;
+        if (this.visibleKeys === 1 && this.running) {
+            streamDeck.logger.info('Polling scheduler: key visible, resuming');
+            this.pollNow();
+        }
+    }
+
+    /**
+     * A key of the plugin is no longer visible. Polling is suspended when none are left.
+     */
+    keyDisappeared(): void {
+        this.visibleKeys = Math.max(0, this.visibleKeys - 1);
+        if (this.visibleKeys === 0) {
+            streamDeck.logger.info('Polling scheduler: no visible keys, going idle');
+            this.clearTimer();
+        }
+    }
+
+    /**
+     * A punch was just sent: poll quickly for a while so every key catches up.
+     */
+    notePunch(): void {
+        this.fastUntil = Date.now() + PollingScheduler.FAST_WINDOW_MS;
+        this.reschedule();
+    }
+
+    /**
+     * Expected end of the current break, or null when not on a break.
+     */
+    setBreakEnd(endsAt: Date | null): void {
+        this.breakEndsAt = endsAt ? endsAt.getTime() : null;
+        this.reschedule();
+    }
+
+    /**
+     * Working hours outside of which polling slows down to {@link IDLE_INTERVAL_MS}. Null polls all day.
+     */
+    setWorkingHours(hours: WorkingHours | null): void {
+        this.workingHours = hours;
+        this.reschedule();
+    }
+
+    /**
+     * Delay until the next poll, given the current state.
+     */
+    nextDelay(now = Date.now()): number {
+        if (this.consecutiveErrors > 0) {
+            const backoff = PollingScheduler.NORMAL_INTERVAL_MS * 2 ** (this.consecutiveErrors - 1);
+            return Math.min(backoff, PollingScheduler.MAX_BACKOFF_MS);
+        }
+
+        if (now < this.fastUntil) {
+            return PollingScheduler.FAST_INTERVAL_MS;
+        }
+
+        if (this.lastStatus === 'paused' && this.breakEndsAt !== null
+            && Math.abs(this.breakEndsAt - now) <= PollingScheduler.FAST_WINDOW_MS) {
+            return PollingScheduler.FAST_INTERVAL_MS;
+        }
+
+        // Someone who is still checked in keeps being polled, even late at night
+        if (this.lastStatus === 'offline' && !this.isWithinWorkingHours(new Date(now))) {
+            return PollingScheduler.IDLE_INTERVAL_MS;
+        }
+
+        return PollingScheduler.NORMAL_INTERVAL_MS;
+    }
+
+    private isWithinWorkingHours(date: Date): boolean {
+        if (!this.workingHours) {
+            return true;
+        }
+
+        const { start, end, weekdays } = this.workingHours;
+        if (weekdays.length > 0 && !weekdays.includes(WEEKDAYS[date.getDay()])) {
+            return false;
+        }
+
+        const minutes = date.getHours() * 60 + date.getMinutes();
+        return minutes >= toMinutes(start) && minutes < toMinutes(end);
+    }
+
+    private async pollNow(): Promise<void> {
+        this.clearTimer();
+        if (!this.running || this.visibleKeys === 0 || this.polling) {
+            return;
+        }
+
+        this.polling = true;
+        try {
+            const status = await this.poll();
+            if (status === null) {
+                this.consecutiveErrors++;
+            } else {
+                this.consecutiveErrors = 0;
+                this.lastStatus = status;
+                if (status !== 'paused') {
+                    this.breakEndsAt = null;
+                }
+            }
+        } catch (error) {
+            streamDeck.logger.error('Polling scheduler: poll failed:', error);
+            this.consecutiveErrors++;
+        } finally {
+            this.polling = false;
+        }
+
+        this.reschedule();
+    }
+
+    private reschedule(): void {
+        this.clearTimer();
+        if (!this.running || this.visibleKeys === 0 || this.polling) {
+            return;
+        }
+
+        const delay = this.nextDelay();
+        this.timer = setTimeout(() => { this.pollNow(); }, delay);
+        streamDeck.logger.info(`Polling scheduler: next poll in ${Math.round(delay / 1000)}s`);
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+    }
+}
+
+/**
+ * Minutes since midnight of a local "HH:mm" time.
+ */
+export function toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return (hours || 0) * 60 + (minutes || 0);
+}
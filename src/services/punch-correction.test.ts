@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { validateCorrection } from "./punch-correction";
+import type { EmployeeCheck, WorkStatus } from "./sesame-api";
+
+const now = new Date(2026, 9, 19, 12, 0).getTime();
+const at = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+
+function check(id: string, start: Date, end: Date | null, checkType = 'work'): EmployeeCheck {
+    return { id, checkType, checkIn: { date: start.toISOString() }, checkOut: end ? { date: end.toISOString() } : null };
+}
+
+function status(workStatus: WorkStatus['workStatus'], openSince?: Date): WorkStatus {
+    return {
+        workStatus,
+        lastCheck: openSince ? { checkId: 'open', checkInDatetime: openSince.toISOString(), checkOutDatetime: null } : null
+    } as WorkStatus;
+}
+
+describe('validateCorrection', () => {
+    it('accepts a forgotten check-in on a day without checks', () => {
+        expect(validateCorrection('checkIn', at(9), status('offline'), [], now)).toBeNull();
+    });
+
+    it('rejects times in the future', () => {
+        expect(validateCorrection('checkIn', at(13), status('offline'), [], now)).toMatch(/not come yet/);
+    });
+
+    it('rejects punches the current status does not allow', () => {
+        expect(validateCorrection('checkIn', at(9), status('online', at(8)), [], now)).toMatch(/already checked in/);
+        expect(validateCorrection('checkOut', at(9), status('offline'), [], now)).toMatch(/not checked in/);
+        expect(validateCorrection('pause', at(9), status('paused', at(8)), [], now)).toMatch(/only pause while working/);
+    });
+
+    it('rejects times that overlap a check already recorded', () => {
+        const checks = [check('morning', at(8), at(10))];
+        expect(validateCorrection('checkIn', at(9, 30), status('offline'), checks, now)).toMatch(/after 10:00/);
+        expect(validateCorrection('checkIn', at(10, 30), status('offline'), checks, now)).toBeNull();
+    });
+
+    it('keeps a backdated check-out or pause after the start of the open check', () => {
+        const checks = [check('open', at(9), null)];
+        expect(validateCorrection('checkOut', at(8, 30), status('online', at(9)), checks, now)).toMatch(/after 09:00/);
+        expect(validateCorrection('pause', at(11), status('online', at(9)), checks, now)).toBeNull();
+    });
+
+    it('checks the open check even when it started on an earlier day', () => {
+        const yesterday = new Date(2026, 9, 18, 9, 0);
+        expect(validateCorrection('checkOut', at(11), status('online', yesterday), [], now)).toBeNull();
+        expect(validateCorrection('checkOut', new Date(2026, 9, 18, 8, 0), status('online', yesterday), [], now)).toMatch(/overlaps/);
+    });
+});
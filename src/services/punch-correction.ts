@@ -0,0 +1,59 @@
+import type { EmployeeCheck, WorkStatus } from "./sesame-api";
+import type { PunchKind } from "./punch-outbox";
+
+/**
+ * Why a punch backdated to `at` does not fit today's checks, or null when it can be sent.
+ * The new punch starts or ends the open check at `at`, so it must come after every moment
+ * already recorded today. Whether the company allows backdated punches at all is only known
+ * to Sesame, which rejects them with an error of its own.
+ */
+export function validateCorrection(
+    kind: PunchKind,
+    at: Date,
+    workStatus: WorkStatus,
+    checks: EmployeeCheck[],
+    nowMillis: number = Date.now()
+): string | null {
+    if (at.getTime() > nowMillis) {
+        return 'That time has not come yet';
+    }
+
+    if (kind === 'checkIn' && workStatus.workStatus === 'online') {
+        return 'You are already checked in';
+    }
+    if (kind === 'checkOut' && workStatus.workStatus === 'offline') {
+        return 'You are not checked in';
+    }
+    if (kind === 'pause' && workStatus.workStatus !== 'online') {
+        return 'You can only pause while working';
+    }
+
+    const overlapped = latestMoment(workStatus, checks);
+    if (overlapped && at.getTime() <= overlapped.getTime()) {
+        return `It overlaps your checks, pick a time after ${formatTime(overlapped)}`;
+    }
+
+    return null;
+}
+
+/**
+ * Last recorded moment: the end of the latest closed check or the start of the open one
+ * (which may have started on an earlier day)
+ */
+function latestMoment(workStatus: WorkStatus, checks: EmployeeCheck[]): Date | null {
+    const moments = checks
+        .map(check => check.checkOut?.date ?? check.checkIn?.date)
+        .filter((date): date is string => !!date);
+
+    const lastCheck = workStatus.lastCheck;
+    if (workStatus.workStatus !== 'offline' && lastCheck?.checkInDatetime && !lastCheck.checkOutDatetime) {
+        moments.push(lastCheck.checkInDatetime);
+    }
+
+    const latest = Math.max(...moments.map(date => new Date(date).getTime()).filter(millis => !isNaN(millis)));
+    return isFinite(latest) ? new Date(latest) : null;
+}
+
+function formatTime(date: Date): string {
+    return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
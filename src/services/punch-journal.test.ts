@@ -0,0 +1,92 @@
+import { appendFile, mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { JournalEntry, journalToCsv, PunchJournal } from "./punch-journal";
+
+function entry(changes: Partial<JournalEntry> = {}): JournalEntry {
+    return {
+        timestamp: new Date(2026, 9, 19, 9, 0).toISOString(),
+        profileId: 'default',
+        punch: 'checkIn',
+        actionUUID: 'com.pablo-magaa.sesamecheck.checkin',
+        request: { origin: 'web' },
+        status: 200,
+        responseId: 'check-1',
+        workStatus: 'online',
+        error: null,
+        ...changes
+    };
+}
+
+describe('PunchJournal', () => {
+    let folder: string;
+    let file: string;
+    let journal: PunchJournal;
+
+    beforeEach(async () => {
+        folder = await mkdtemp(path.join(os.tmpdir(), 'sesame-journal-'));
+        file = path.join(folder, 'nested', 'punch-journal.jsonl');
+        journal = new PunchJournal(file);
+    });
+
+    afterEach(async () => {
+        await rm(folder, { recursive: true, force: true });
+    });
+
+    it('strips secrets from the request, nested ones included', async () => {
+        await journal.append(entry({ request: { origin: 'web', password: 'p', auth: { Authorization: 'Bearer t', token: 't', kept: 1 }, coordinates: { latitude: 1, longitude: 2 } } }));
+
+        const content = await readFile(file, 'utf8');
+        expect(content).not.toMatch(/Bearer|"p"|"t"/);
+        expect((await journal.read())[0].request).toEqual({ origin: 'web', auth: { kept: 1 }, coordinates: { latitude: 1, longitude: 2 } });
+    });
+
+    it('keeps concurrent appends in call order, one line each', async () => {
+        await Promise.all(Array.from({ length: 20 }, (_, index) => journal.append(entry({ responseId: `check-${index}` }))));
+
+        const lines = (await readFile(file, 'utf8')).trimEnd().split('\n');
+        expect(lines.map(line => JSON.parse(line).responseId)).toEqual(Array.from({ length: 20 }, (_, index) => `check-${index}`));
+    });
+
+    it('lists the newest first and filters by profile, punch, day and text', async () => {
+        await journal.append(entry());
+        await journal.append(entry({ profileId: 'work', punch: 'pause', timestamp: new Date(2026, 9, 20, 13, 0).toISOString() }));
+        await journal.append(entry({ punch: 'checkOut', status: null, error: 'Network unavailable', timestamp: new Date(2026, 9, 21, 18, 0).toISOString() }));
+
+        expect((await journal.read()).map(found => found.punch)).toEqual(['checkOut', 'pause', 'checkIn']);
+        expect((await journal.read({ profileId: 'work' })).map(found => found.punch)).toEqual(['pause']);
+        expect((await journal.read({ punch: 'checkIn' }))).toHaveLength(1);
+        expect((await journal.read({ from: '2026-10-20', to: '2026-10-20' })).map(found => found.punch)).toEqual(['pause']);
+        expect((await journal.read({ text: 'network' })).map(found => found.punch)).toEqual(['checkOut']);
+    });
+
+    it('skips a line cut short and keeps reading', async () => {
+        await journal.append(entry({ responseId: 'before' }));
+        await appendFile(file, '{"timestamp":"2026-10-19T', 'utf8');
+        await appendFile(file, '\n', 'utf8');
+        await journal.append(entry({ responseId: 'after' }));
+
+        expect((await journal.read()).map(found => found.responseId)).toEqual(['after', 'before']);
+    });
+
+    it('reads nothing before the first punch', async () => {
+        expect(await journal.read()).toEqual([]);
+    });
+});
+
+describe('journalToCsv', () => {
+    it('quotes fields with commas, quotes or line breaks and writes requests as JSON', () => {
+        const csv = journalToCsv([entry({ error: 'Bad "time", try again', request: { origin: 'web', date: '2026-10-19T07:00:00.000Z' } })]);
+        const lines = csv.split('\r\n');
+
+        expect(lines[0]).toBe('timestamp,profile_id,punch,action_uuid,request,status,response_id,work_status,error');
+        expect(lines[1]).toContain(',"{""origin"":""web"",""date"":""2026-10-19T07:00:00.000Z""}",200,check-1,online,"Bad ""time"", try again"');
+        expect(csv.endsWith('\r\n')).toBe(true);
+    });
+
+    it('leaves empty fields for missing values', () => {
+        const line = journalToCsv([entry({ actionUUID: null, status: null, responseId: null })]).split('\r\n')[1];
+        expect(line).toMatch(/,checkIn,,.*,,,online,$/);
+    });
+});
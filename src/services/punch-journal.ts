@@ -0,0 +1,124 @@
+import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { PunchKind } from "./punch-outbox";
+import { defaultExportFolder } from "./timesheet-export";
+
+/**
+ * What the plugin sent for one punch and what Sesame answered.
+ */
+export interface JournalEntry {
+    timestamp: string; // ISO, when the answer (or the failure) arrived
+    profileId: string;
+    punch: PunchKind;
+    actionUUID: string | null; // Stream Deck action that made the punch, null when unknown
+    request: Record<string, unknown>; // Body sent, without secrets
+    status: number | null; // HTTP status, null when Sesame was unreachable
+    responseId: string | null;
+    workStatus: string | null;
+    error: string | null;
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * Which entries to list. Unset fields match everything.
+ */
+export interface JournalFilter {
+    profileId?: string;
+    punch?: PunchKind;
+    from?: string; // YYYY-MM-DD, local day
+    to?: string;
+    text?: string; // Case-insensitive match anywhere in the entry
+}
+
+const SECRET_KEY = /password|token|secret|authorization|credential/i;
+
+/**
+ * Append-only punch journal, one JSON entry per line. Entries are never rewritten or removed.
+ */
+export class PunchJournal {
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly file: string) {}
+
+    /**
+     * Add an entry after the previous ones (writes are serialized)
+     */
+    append(entry: JournalEntry): Promise<void> {
+        const line = JSON.stringify({ ...entry, request: withoutSecrets(entry.request) }) + '\n';
+        const next = this.writeQueue.then(async () => {
+            await mkdir(path.dirname(this.file), { recursive: true });
+            await appendFile(this.file, line, 'utf8');
+        });
+        this.writeQueue = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Matching entries, newest first. Unreadable lines are skipped.
+     */
+    async read(filter: JournalFilter = {}): Promise<JournalEntry[]> {
+        await this.writeQueue;
+        let content: string;
+        try {
+            content = await readFile(this.file, 'utf8');
+        } catch {
+            return [];
+        }
+
+        const entries: JournalEntry[] = [];
+        for (const line of content.split('\n')) {
+            try {
+                const entry = line.trim() ? JSON.parse(line) as JournalEntry : null;
+                if (entry && matches(entry, filter)) {
+                    entries.push(entry);
+                }
+            } catch {
+                // A line cut short by a crash; keep the rest
+            }
+        }
+        return entries.reverse();
+    }
+}
+
+/**
+ * CSV of journal entries for sharing with HR
+ */
+export function journalToCsv(entries: JournalEntry[]): string {
+    const field = (value: unknown) => {
+        const text = value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+    return [
+        'timestamp,profile_id,punch,action_uuid,request,status,response_id,work_status,error',
+        ...entries.map(entry => [entry.timestamp, entry.profileId, entry.punch, entry.actionUUID, entry.request, entry.status, entry.responseId, entry.workStatus, entry.error].map(field).join(','))
+    ].join('\r\n') + '\r\n';
+}
+
+/**
+ * Write entries as CSV to `folder` (created if needed) and return the file path.
+ */
+export async function exportJournal(entries: JournalEntry[], folder: string = defaultExportFolder()): Promise<string> {
+    await mkdir(folder, { recursive: true });
+    const file = path.join(folder, `sesame-punch-journal-${new Intl.DateTimeFormat('en-CA').format(new Date())}.csv`);
+    await writeFile(file, journalToCsv(entries), 'utf8');
+    return file;
+}
+
+function matches(entry: JournalEntry, filter: JournalFilter): boolean {
+    const day = new Intl.DateTimeFormat('en-CA').format(new Date(entry.timestamp));
+    return (!filter.profileId || entry.profileId === filter.profileId)
+        && (!filter.punch || entry.punch === filter.punch)
+        && (!filter.from || day >= filter.from)
+        && (!filter.to || day <= filter.to)
+        && (!filter.text || JSON.stringify(entry).toLowerCase().includes(filter.text.toLowerCase()));
+}
+
+function withoutSecrets(value: Record<string, unknown>): Record<string, unknown> {
+    return Object.fromEntries(Object.entries(value)
+        .filter(([key]) => !SECRET_KEY.test(key))
+        .map(([key, inner]) => [key, inner && typeof inner === 'object' && !Array.isArray(inner) ? withoutSecrets(inner as Record<string, unknown>) : inner]));
+}
+
+// Shared journal in the user's home, so it survives plugin updates
+export const punchJournal = new PunchJournal(path.join(os.homedir(), '.sesame-checker', 'punch-journal.jsonl'));
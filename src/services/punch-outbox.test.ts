@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from "vitest";
+import { PendingPunch, PunchOutbox } from "./punch-outbox";
+
+vi.mock("@elgato/streamdeck", () => ({ default: { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() } } }));
+
+function memoryStore(initial: PendingPunch[] = []) {
+    const store = {
+        saved: initial,
+        load: vi.fn(async () => store.saved),
+        save: vi.fn(async (punches: PendingPunch[]) => { store.saved = punches; })
+    };
+    return store;
+}
+
+describe('PunchOutbox', () => {
+    it('keeps punches in the order they were queued and persists every change', async () => {
+        const store = memoryStore();
+        const outbox = new PunchOutbox(store);
+
+        const checkIn = await outbox.enqueue('checkIn', 'employee-1', { workCheckTypeId: 'office' });
+        const pause = await outbox.enqueue('pause', 'employee-1', { workBreakId: 'lunch' });
+
+        expect((await outbox.list()).map(punch => punch.kind)).toEqual(['checkIn', 'pause']);
+        expect(checkIn.workCheckTypeId).toBe('office');
+        expect(pause.workBreakId).toBe('lunch');
+        expect(store.saved).toHaveLength(2);
+        expect(outbox.size).toBe(2);
+    });
+
+    it('removes replayed punches by id', async () => {
+        const store = memoryStore();
+        const outbox = new PunchOutbox(store);
+        const first = await outbox.enqueue('checkIn', 'employee-1');
+        await outbox.enqueue('checkOut', 'employee-1');
+
+        await outbox.remove(first.id);
+
+        expect(store.saved.map(punch => punch.kind)).toEqual(['checkOut']);
+    });
+
+    it('loads from the store once and again after a reset', async () => {
+        const store = memoryStore([{ id: 'stored', kind: 'checkOut', employeeId: 'employee-1', date: '2026-10-19T08:00:00.000Z' }]);
+        const outbox = new PunchOutbox(store);
+
+        expect(outbox.size).toBe(0);
+        await outbox.list();
+        await outbox.list();
+        expect(store.load).toHaveBeenCalledTimes(1);
+        expect(outbox.size).toBe(1);
+
+        outbox.reset();
+        await outbox.list();
+        expect(store.load).toHaveBeenCalledTimes(2);
+    });
+});
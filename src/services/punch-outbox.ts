@@ -0,0 +1,106 @@
+import streamDeck from "@elgato/streamdeck";
+import type { Coordinates } from "./coordinates";
+
+export type PunchKind = 'checkIn' | 'checkOut' | 'pause';
+
+/**
+ * A punch taken while Sesame was unreachable, kept with the time the key was pressed.
+ */
+export interface PendingPunch {
+    id: string;
+    kind: PunchKind;
+    employeeId: string;
+    workBreakId?: string;
+    workCheckTypeId?: string;
+    coordinates?: Coordinates; // Resolved when the key was pressed
+    date: string; // ISO timestamp of the original key press
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * What a punch needs besides its kind and employee.
+ */
+export interface PunchDetails {
+    workBreakId?: string; // Pauses only
+    workCheckTypeId?: string; // Check-in/check-out only
+    coordinates?: Coordinates;
+}
+
+/**
+ * A queued punch that could not be replayed because the server state no longer allows it.
+ */
+export interface PunchConflict {
+    punch: PendingPunch;
+    reason: string;
+}
+
+/**
+ * Where the outbox persists its entries (global settings in practice).
+ */
+export interface PunchOutboxStore {
+    load(): Promise<PendingPunch[]>;
+    save(punches: PendingPunch[]): Promise<void>;
+}
+
+/**
+ * Persistent FIFO of punches waiting for connectivity.
+ */
+export class PunchOutbox {
+    private punches: PendingPunch[] | null = null;
+
+    constructor(private readonly store: PunchOutboxStore) {}
+
+    /**
+     * Number of punches waiting (0 until the outbox has been loaded).
+     */
+    get size(): number {
+        return this.punches?.length ?? 0;
+    }
+
+    /**
+     * All pending punches, oldest first.
+     */
+    async list(): Promise<PendingPunch[]> {
+        if (!this.punches) {
+            this.punches = await this.store.load();
+        }
+        return [...this.punches];
+    }
+
+    /**
+     * Record a punch with the current time.
+     */
+    async enqueue(kind: PunchKind, employeeId: string, details: PunchDetails = {}): Promise<PendingPunch> {
+        const punches = await this.list();
+        const punch: PendingPunch = {
+            id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            kind,
+            employeeId,
+            date: new Date().toISOString(),
+            ...(details.workBreakId ? { workBreakId: details.workBreakId } : {}),
+            ...(details.workCheckTypeId ? { workCheckTypeId: details.workCheckTypeId } : {}),
+            ...(details.coordinates ? { coordinates: details.coordinates } : {})
+        };
+
+        this.punches = [...punches, punch];
+        await this.store.save(this.punches);
+        streamDeck.logger.info(`Outbox: queued ${kind} at ${punch.date} (${this.punches.length} pending)`);
+        return punch;
+    }
+
+    /**
+     * Remove a punch once it has been replayed or rejected.
+     */
+    async remove(id: string): Promise<void> {
+        const punches = await this.list();
+        this.punches = punches.filter(punch => punch.id !== id);
+        await this.store.save(this.punches);
+    }
+
+    /**
+     * Forget everything that is cached in memory (e.g. after logout).
+     */
+    reset(): void {
+        this.punches = null;
+    }
+}
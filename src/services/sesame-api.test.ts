@@ -0,0 +1,170 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The credential vault and punch journal live in the home folder: keep them in a temporary one
+const home = await vi.hoisted(async () => {
+    const { mkdtempSync } = await import("node:fs");
+    const { tmpdir } = await import("node:os");
+    const { join } = await import("node:path");
+    const dir = mkdtempSync(join(tmpdir(), 'sesame-home-'));
+    process.env.HOME = dir;
+    return dir;
+});
+
+vi.mock("@elgato/streamdeck", () => ({ default: { logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() } } }));
+
+import { rmSync } from "node:fs";
+import type { HttpTransport } from "./http-transport";
+import { MockSesameServer } from "./mock-sesame-server";
+import { ProfileSettings, ProfileStore, SesameAPI } from "./sesame-api";
+
+function memoryStore(): ProfileStore & { profiles: Map<string, ProfileSettings> } {
+    const profiles = new Map<string, ProfileSettings>();
+    return {
+        profiles,
+        load: async profileId => ({ name: 'Test', ...profiles.get(profileId) }),
+        save: async (profileId, changes) => {
+            const settings = { name: 'Test', ...profiles.get(profileId), ...changes };
+            profiles.set(profileId, settings);
+            return settings;
+        }
+    };
+}
+
+/**
+ * The mock server's transport, counting requests by path and able to refuse logins.
+ */
+function countingTransport(server: MockSesameServer) {
+    const counts = new Map<string, number>();
+    const transport = {
+        refuseLogin: false,
+        count: (path: string) => counts.get(path) ?? 0,
+        request: async (url: string, init?: RequestInit) => {
+            const path = new URL(url).pathname.replace(/^\/api\/v3/, '');
+            counts.set(path, (counts.get(path) ?? 0) + 1);
+            if (transport.refuseLogin && path === '/security/login') {
+                return new Response(JSON.stringify({ error: { message: 'invalid_credentials' } }), { status: 401 });
+            }
+            return server.transport.request(url, init);
+        }
+    };
+    return transport;
+}
+
+afterAll(() => {
+    rmSync(home, { recursive: true, force: true });
+});
+
+describe('SesameAPI session refresh', () => {
+    let server: MockSesameServer;
+    let transport: ReturnType<typeof countingTransport>;
+    let store: ReturnType<typeof memoryStore>;
+    let api: SesameAPI;
+
+    beforeEach(async () => {
+        server = new MockSesameServer();
+        transport = countingTransport(server);
+        store = memoryStore();
+        api = new SesameAPI('profile-1', store, transport);
+        expect((await api.login('demo@example.com', 'demo')).ok).toBe(true);
+    });
+
+    afterEach(() => {
+        api.polling.stop();
+    });
+
+    it('logs in again once on a 401 and replays the request', async () => {
+        server.expireTokens();
+
+        const status = await api.fetchWorkStatus(true);
+
+        expect(status.ok).toBe(true);
+        expect(transport.count('/security/login')).toBe(2);
+        expect(transport.count('/security/me')).toBe(2);
+    });
+
+    it('shares one re-login between concurrent callers', async () => {
+        server.expireTokens();
+
+        const results = await Promise.all([api.fetchWorkStatus(true), api.fetchWorkStatus(true), api.fetchWorkStatus(true)]);
+
+        expect(results.every(result => result.ok)).toBe(true);
+        expect(transport.count('/security/login')).toBe(2);
+    });
+
+    it('clears the stored token when the refresh fails', async () => {
+        server.expireTokens();
+        transport.refuseLogin = true;
+
+        const status = await api.fetchWorkStatus(true);
+
+        expect(status.ok).toBe(false);
+        expect(!status.ok && status.error.kind).toBe('auth');
+        expect(transport.count('/security/login')).toBe(2);
+        expect(await api.getToken()).toBeNull();
+        expect(store.profiles.get('profile-1')?.isAuthenticated).toBe(false);
+    });
+});
+
+describe('SesameAPI transport failures', () => {
+    let api: SesameAPI | null = null;
+
+    afterEach(() => {
+        api?.polling.stop();
+    });
+
+    async function loggedInWith(fail: (url: string) => Promise<Response> | null): Promise<SesameAPI> {
+        const server = new MockSesameServer();
+        const transport: HttpTransport = {
+            request: (url, init) => fail(url) ?? server.transport.request(url, init)
+        };
+        api = new SesameAPI('profile-1', memoryStore(), transport);
+        expect((await api.login('demo@example.com', 'demo')).ok).toBe(true);
+        return api;
+    }
+
+    it('reports a request that could not be sent as a network error', async () => {
+        const client = await loggedInWith(url => url.endsWith('/security/me') ? Promise.reject(new TypeError('fetch failed')) : null);
+
+        const status = await client.fetchWorkStatus(true);
+
+        expect(!status.ok && status.error.kind).toBe('network');
+    });
+
+    it('does not take an unreadable answer for being offline', async () => {
+        const client = await loggedInWith(url => url.endsWith('/security/me') ? Promise.resolve(new Response('<html>', { status: 200 })) : null);
+
+        const status = await client.fetchWorkStatus(true);
+
+        expect(!status.ok && status.error.kind).toBe('server');
+    });
+});
+
+describe('SesameAPI checks', () => {
+    let server: MockSesameServer;
+    let api: SesameAPI;
+
+    beforeEach(async () => {
+        server = new MockSesameServer();
+        api = new SesameAPI('profile-1', memoryStore(), server.transport);
+        expect((await api.login('demo@example.com', 'demo')).ok).toBe(true);
+    });
+
+    afterEach(() => {
+        api.polling.stop();
+    });
+
+    it('reads every page of the checks of a range', async () => {
+        const token = (await api.getToken())!;
+        for (let day = 60; day > 0; day--) {
+            const start = new Date(2026, 9, 19 - day, 9, 0);
+            const end = new Date(2026, 9, 19 - day, 17, 0);
+            server.handle('POST', 'https://back-eu1.sesametime.com/api/v3/employees/mock-employee-1/check-in', `Bearer ${token}`, JSON.stringify({ date: start.toISOString() }));
+            server.handle('POST', 'https://back-eu1.sesametime.com/api/v3/employees/mock-employee-1/check-out', `Bearer ${token}`, JSON.stringify({ date: end.toISOString() }));
+        }
+
+        const checks = await api.getDailyChecks('mock-employee-1', '2026-08-01', '2026-10-19');
+
+        expect(checks).toHaveLength(60);
+        expect(new Set(checks!.map(check => check.id)).size).toBe(60);
+    });
+});
@@ -1,75 +1,122 @@
 import streamDeck from "@elgato/streamdeck";
+import { HttpTransport, fetchTransport } from "./http-transport";
+import { credentialVault, EncryptedSecrets, StoredSecrets } from "./credential-vault";
+import { ApiResult, AuthError, NetworkError, RegionError, ServerError, ValidationError, errorFromException, errorFromResponse } from "./sesame-errors";
+import { PendingPunch, PunchConflict, PunchDetails, PunchKind, PunchOutbox } from "./punch-outbox";
+import { PollingScheduler } from "./polling-scheduler";
+import { Coordinates, CoordinatePreset, resolveCoordinates } from "./coordinates";
+import { CheckOutGuard, ForgottenCheckOut, detectForgottenCheckOut } from "./check-out-guard";
+import { punchJournal } from "./punch-journal";
+import { validateCorrection } from "./punch-correction";
 
 /**
- * Sesame HR API service for handling authentication and API calls
+ * Settings of one Sesame account, stored under its profile in global settings
  */
-// Global settings interface
-interface GlobalPluginSettings {
+export interface ProfileSettings {
+    name: string;
     email?: string;
-    password?: string;
-    token?: string;
+    credentials?: EncryptedSecrets; // Encrypted password and token
+    storePassword?: boolean; // false = token only, the password is never persisted
+    password?: string; // Legacy plaintext field, migrated into credentials on load
+    token?: string; // Legacy plaintext field, migrated into credentials on load
     isAuthenticated?: boolean;
     region?: string;
     backSubdomain?: string;
     backMobileSubdomain?: string;
+    lastEmployeeId?: string; // Needed to queue punches while Sesame is unreachable
+    pendingPunches?: PendingPunch[]; // Offline outbox, replayed in order
+    employees?: EmployeeRecord[]; // Every employee/company pair returned by /security/me
+    selectedEmployeeId?: string; // Record chosen in the property inspector when there are several
+    coordinatePresets?: CoordinatePreset[]; // Named locations sent with punches
+    defaultCoordinatePresetId?: string; // Used by keys without their own preset
+    targetNotification?: { date: string; level: number }; // Highest daily target alert already shown
+    lastActivityAt?: number; // Epoch millis of the last key press, saved at most once a minute
     [key: string]: any; // Index signature for JsonObject compatibility
 }
 
+/**
+ * Where a {@link SesameAPI} reads and writes its profile settings.
+ */
+export interface ProfileStore {
+    load(profileId: string): Promise<ProfileSettings>;
+    save(profileId: string, changes: Partial<ProfileSettings>): Promise<ProfileSettings>;
+}
+
 interface PreLoginData {
     region: string;
     backSubdomain: string;
     backMobileSubdomain: string;
 }
 
-const ERROR_MESSAGES: Record<string, string> = {
-    'invalid_credentials': 'Email o contraseña incorrectos',
-    'user_not_found': 'Usuario no encontrado',
-    'account_locked': 'Cuenta bloqueada',
-    'too_many_attempts': 'Demasiados intentos',
-};
-
+/**
+ * Sesame HR API service for handling authentication and API calls of one profile
+ */
 export class SesameAPI {
     private static readonly PRE_LOGIN_URL = 'https://login.sesametime.com/private/login-finder/v1/pre-login';
     private static readonly DEFAULT_BASE_URL = 'https://back-eu1.sesametime.com/api/v3';
     private static readonly DEFAULT_MOBILE_BASE_URL = 'https://back-mobile-eu1.sesametime.com/api/v3';
     private static readonly LOGIN_ENDPOINT = '/security/login';
+    private static readonly WHOS_IN_PAGE_SIZE = 50;
+    private static readonly CHECKS_PAGE_SIZE = 50;
+    private static readonly ACTIVITY_SAVE_MS = 60000; // Key presses are saved at most this often
 
     private baseUrl = SesameAPI.DEFAULT_BASE_URL;
     private mobileBaseUrl = SesameAPI.DEFAULT_MOBILE_BASE_URL;
 
     private token: string | null = null;
-    private _lastError: string | null = null;
+    private reloginPromise: Promise<boolean> | null = null;
     private workStatusCache: WorkStatus | null = null;
     private lastWorkStatusFetch: number = 0;
     private readonly CACHE_DURATION_MS = 30000; // Cache for 30 seconds (for polling)
     private readonly statusChangeListeners: Array<() => void> = [];
-    private pollingInterval: NodeJS.Timeout | null = null;
-    private readonly POLLING_INTERVAL_MS = 30000; // Poll every 30 seconds
     private lastKnownStatus: WorkStatusType | null = null;
+    private lastEmployeeId: string | null = null;
+    private readonly punchConflictListeners: Array<(conflict: PunchConflict) => void> = [];
+    private flushPromise: Promise<void> | null = null;
+    private checkOutGuard: CheckOutGuard | null = null;
+    private lastActivityAt = 0;
+    private lastActivitySavedAt = 0;
+    private forgotten: ForgottenCheckOut | null = null;
+    private targetNotification: Promise<ProfileSettings['targetNotification'] | null> | null = null;
 
-    get lastError(): string | null {
-        return this._lastError;
-    }
+    /**
+     * Punches taken while offline, persisted in the profile settings.
+     */
+    readonly outbox = new PunchOutbox({
+        load: async () => (await this.loadSettings()).pendingPunches ?? [],
+        save: async punches => {
+            await this.saveSettings({ pendingPunches: punches });
+        }
+    });
+
+    /**
+     * Status polling; actions report their visibility so it can suspend when no key is shown.
+     */
+    readonly polling = new PollingScheduler(() => this.checkForStatusChanges());
+
+    constructor(
+        readonly profileId: string,
+        private readonly store: ProfileStore,
+        private readonly transport: HttpTransport = fetchTransport
+    ) {}
 
     /**
      * Authenticate with Sesame HR API and store credentials globally
      */
-    async login(email: string, password: string, skipRegionResolution = false): Promise<boolean> {
+    async login(email: string, password: string, skipRegionResolution = false, storePassword?: boolean): Promise<ApiResult<void>> {
         try {
-            this._lastError = null;
-
             // Resolve region before authenticating (unless already restored from settings)
             let regionData: PreLoginData | null = null;
             if (!skipRegionResolution) {
-                regionData = await this.resolveRegion(email);
-                if (!regionData) {
-                    this._lastError = 'Region resolution failed';
-                    return false;
+                const region = await this.resolveRegion(email);
+                if (!region.ok) {
+                    return region;
                 }
+                regionData = region.value;
             }
 
             const loginUrl = `${this.baseUrl}${SesameAPI.LOGIN_ENDPOINT}`;
-            const response = await fetch(loginUrl, {
+            const response = await this.send(loginUrl, {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
@@ -78,15 +125,9 @@ export class SesameAPI {
             });
 
             if (!response.ok) {
-                const errorBody = await response.text();
-                try {
-                    const parsed = JSON.parse(errorBody);
-                    const apiMsg = parsed?.error?.message;
-                    this._lastError = ERROR_MESSAGES[apiMsg] || apiMsg || `Login failed (${response.status})`;
-                } catch {
-                    this._lastError = `Login failed (${response.status})`;
-                }
-                return false;
+                const error = await errorFromResponse(response, 'Login failed');
+                // Any rejection of the credentials themselves is an auth problem
+                return { ok: false, error: response.status === 400 || response.status === 422 ? new AuthError(error.message, response.status) : error };
             }
 
             const response_data: any = await response.json();
@@ -94,28 +135,30 @@ export class SesameAPI {
             // Extract token from response.data
             this.token = response_data.data;
 
-            // Save credentials, token, and region data to global settings
-            const currentSettings = await streamDeck.settings.getGlobalSettings<GlobalPluginSettings>();
-            await streamDeck.settings.setGlobalSettings({
-                ...currentSettings,
+            // Save encrypted credentials, token, and region data to the profile settings
+            const currentSettings = await this.loadSettings();
+            const keepPassword = storePassword ?? currentSettings.storePassword ?? true;
+            await this.saveSettings({
                 email,
-                password, // Note: In production, consider encrypting this
-                token: this.token,
+                credentials: credentialVault.encrypt({
+                    password: keepPassword ? password : undefined,
+                    token: this.token ?? undefined
+                }),
+                storePassword: keepPassword,
                 isAuthenticated: true,
                 region: regionData?.region ?? currentSettings.region,
                 backSubdomain: regionData?.backSubdomain ?? currentSettings.backSubdomain,
                 backMobileSubdomain: regionData?.backMobileSubdomain ?? currentSettings.backMobileSubdomain
             });
 
-            streamDeck.logger.info('Credentials saved to global settings');
+            streamDeck.logger.info(`Credentials saved to profile ${this.profileId} (${keepPassword ? 'password and token' : 'token only'})`);
 
             // Start polling after successful login
             this.startPolling();
 
-            return true;
+            return { ok: true, value: undefined };
         } catch (error) {
-            this._lastError = this._lastError || (error instanceof Error ? error.message : String(error));
-            return false;
+            return { ok: false, error: errorFromException(error, 'Login') };
         }
     }
 
@@ -127,10 +170,10 @@ export class SesameAPI {
             return this.token;
         }
 
-        // Try to get token from global settings
-        const settings = await streamDeck.settings.getGlobalSettings<GlobalPluginSettings>();
-        if (settings.token) {
-            this.token = settings.token;
+        // Try to get token from the encrypted profile settings
+        const { token } = await this.loadSecrets();
+        if (token) {
+            this.token = token;
             return this.token;
         }
 
@@ -148,35 +191,74 @@ export class SesameAPI {
     /**
      * Try to automatically login using stored credentials
      */
-    private async autoLogin(): Promise<boolean> {
-        const settings = await streamDeck.settings.getGlobalSettings<GlobalPluginSettings>();
+    private async autoLogin(): Promise<ApiResult<void>> {
+        const settings = await this.loadSettings();
+        const { password } = credentialVault.decrypt(settings.credentials);
 
-        if (settings.email && settings.password) {
+        if (settings.email && password) {
             streamDeck.logger.info('Auto-login: Found stored credentials, attempting login...');
             // If we have saved region data, restore URLs and skip pre-login
             const hasRegion = this.applyRegionFromSettings(settings);
-            return await this.login(settings.email, settings.password, hasRegion);
+            return await this.login(settings.email, password, hasRegion);
         }
 
-        return false;
+        return { ok: false, error: new AuthError(settings.email ? 'Session expired, log in again' : 'Not logged in') };
+    }
+
+    /**
+     * Read the profile settings, migrating any legacy plaintext password/token into the vault.
+     */
+    async loadSettings(): Promise<ProfileSettings> {
+        const settings = await this.store.load(this.profileId);
+
+        if (settings.password === undefined && settings.token === undefined) {
+            return settings;
+        }
+
+        streamDeck.logger.info('Migrating plaintext credentials into the encrypted vault');
+        const existing = credentialVault.decrypt(settings.credentials);
+        return await this.saveSettings({
+            password: undefined,
+            token: undefined,
+            credentials: credentialVault.encrypt({
+                password: settings.password ?? existing.password,
+                token: settings.token ?? existing.token
+            }),
+            storePassword: settings.storePassword ?? true
+        });
+    }
+
+    /**
+     * Merge changes into the profile settings (undefined clears a field).
+     */
+    async saveSettings(changes: Partial<ProfileSettings>): Promise<ProfileSettings> {
+        return await this.store.save(this.profileId, changes);
+    }
+
+    /**
+     * Decrypt the stored password and token.
+     */
+    private async loadSecrets(): Promise<StoredSecrets> {
+        const settings = await this.loadSettings();
+        return credentialVault.decrypt(settings.credentials);
     }
 
     /**
      * Resolve the user's region from their email via the pre-login endpoint.
      * Sets baseUrl and mobileBaseUrl based on the resolved region.
      */
-    private async resolveRegion(email: string): Promise<PreLoginData | null> {
+    private async resolveRegion(email: string): Promise<ApiResult<PreLoginData>> {
         try {
-            const response = await fetch(SesameAPI.PRE_LOGIN_URL, {
+            const response = await this.send(SesameAPI.PRE_LOGIN_URL, {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({ email })
             });
 
             if (!response.ok) {
-                const errorBody = await response.text();
-                streamDeck.logger.error(`Region resolution failed: ${response.status} - ${errorBody}`);
-                return null;
+                const error = await errorFromResponse(response, 'Region resolution failed');
+                streamDeck.logger.error(`Region resolution failed: ${response.status} - ${error.message}`);
+                return { ok: false, error: error.kind === 'rate-limit' ? error : new RegionError(error.message, response.status) };
             }
 
             const responseJson: any = await response.json();
@@ -187,7 +269,7 @@ export class SesameAPI {
 
             if (!backSubdomain || !backMobileSubdomain) {
                 streamDeck.logger.error('Pre-login response missing subdomain data:', JSON.stringify(data));
-                return null;
+                return { ok: false, error: new RegionError('Account region not found') };
             }
 
             this.baseUrl = `https://${backSubdomain}.sesametime.com/api/v3`;
@@ -195,17 +277,17 @@ export class SesameAPI {
 
             streamDeck.logger.info(`Region resolved: ${region}, baseUrl: ${this.baseUrl}, mobileBaseUrl: ${this.mobileBaseUrl}`);
 
-            return { region, backSubdomain, backMobileSubdomain };
+            return { ok: true, value: { region, backSubdomain, backMobileSubdomain } };
         } catch (error) {
             streamDeck.logger.error('Error resolving region:', error);
-            return null;
+            return { ok: false, error: errorFromException(error, 'Region resolution') };
         }
     }
 
     /**
      * Restore region URLs from saved settings without making an API call.
      */
-    private applyRegionFromSettings(settings: GlobalPluginSettings): boolean {
+    private applyRegionFromSettings(settings: ProfileSettings): boolean {
         if (settings.backSubdomain && settings.backMobileSubdomain) {
             this.baseUrl = `https://${settings.backSubdomain}.sesametime.com/api/v3`;
             this.mobileBaseUrl = `https://${settings.backMobileSubdomain}.sesametime.com/api/v3`;
@@ -218,22 +300,30 @@ export class SesameAPI {
     /**
      * Perform login (auto or manual) - ensures authentication before any operation
      */
-    async performLogin(email?: string, password?: string): Promise<boolean> {
+    async authenticate(email?: string, password?: string, storePassword?: boolean): Promise<ApiResult<void>> {
         // If email and password provided, do manual login
         if (email && password) {
-            return await this.login(email, password);
+            return await this.login(email, password, false, storePassword);
         }
 
         // Check if already authenticated
         const token = await this.getToken();
         if (token) {
-            return true;
+            return { ok: true, value: undefined };
         }
 
         // Try auto-login
         return await this.autoLogin();
     }
 
+    /**
+     * Same as {@link authenticate}, for callers that only need to know whether a session exists
+     */
+    async performLogin(email?: string, password?: string, storePassword?: boolean): Promise<boolean> {
+        const result = await this.authenticate(email, password, storePassword);
+        return result.ok;
+    }
+
     /**
      * Clear authentication
      */
@@ -242,20 +332,25 @@ export class SesameAPI {
         this.baseUrl = SesameAPI.DEFAULT_BASE_URL;
         this.mobileBaseUrl = SesameAPI.DEFAULT_MOBILE_BASE_URL;
 
-        await streamDeck.settings.setGlobalSettings({
+        await this.saveSettings({
             email: undefined,
-            password: undefined,
-            token: undefined,
+            credentials: undefined,
             isAuthenticated: false,
             region: undefined,
             backSubdomain: undefined,
-            backMobileSubdomain: undefined
+            backMobileSubdomain: undefined,
+            lastEmployeeId: undefined,
+            pendingPunches: undefined,
+            employees: undefined,
+            selectedEmployeeId: undefined
         });
 
         // Stop polling on logout
         this.stopPolling();
+        this.outbox.reset();
+        this.lastEmployeeId = null;
 
-        streamDeck.logger.info('User logged out and global settings cleared');
+        streamDeck.logger.info(`Profile ${this.profileId} logged out and its settings cleared`);
     }
 
     /**
@@ -269,66 +364,130 @@ export class SesameAPI {
      * Make authenticated API call
      */
     private async makeAuthenticatedRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
-        const token = await this.getToken();
-
-        if (!token) {
-            throw new Error('Not authenticated');
-        }
-
-        const headers = {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`, // Assuming Bearer token format
-            ...options.headers
-        };
+        return this.sendAuthenticated(token => {
+            const headers = {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${token}`, // Assuming Bearer token format
+                ...options.headers
+            };
 
-        const url = `${this.baseUrl}${endpoint}`;
-        const requestOptions = {
-            ...options,
-            headers
-        };
+            const url = `${this.baseUrl}${endpoint}`;
+            const requestOptions = {
+                ...options,
+                headers
+            };
 
-        streamDeck.logger.info(`API Request: ${options.method || 'GET'} ${url}`);
-        streamDeck.logger.info(`API Request Headers:`, JSON.stringify(headers));
+            streamDeck.logger.info(`API Request: ${options.method || 'GET'} ${url}`);
+            streamDeck.logger.info(`API Request Headers:`, JSON.stringify({ ...headers, Authorization: 'Bearer ***' }));
 
-        if (options.body) {
-            streamDeck.logger.info(`API Request Body:`, options.body);
-        }
+            if (options.body) {
+                streamDeck.logger.info(`API Request Body:`, options.body);
+            }
 
-        return fetch(url, requestOptions);
+            return this.send(url, requestOptions);
+        });
     }
 
     /**
      * Make authenticated request against the mobile API base.
      */
     private async makeAuthenticatedMobileRequest(endpoint: string, options: RequestInit = {}): Promise<Response> {
+        return this.sendAuthenticated(token => {
+            const headers = {
+                'Content-Type': 'application/json',
+                'Accept': 'application/json',
+                'Authorization': `Bearer ${token}`,
+                'RSRC': '31',
+                ...options.headers
+            };
+
+            const url = `${this.mobileBaseUrl}${endpoint}`;
+            const requestOptions = {
+                ...options,
+                headers
+            };
+
+            streamDeck.logger.info(`Mobile API Request: ${options.method || 'GET'} ${url}`);
+            streamDeck.logger.info(`Mobile API Request Headers:`, JSON.stringify({ ...headers, Authorization: 'Bearer ***' }));
+
+            if (options.body) {
+                streamDeck.logger.info(`Mobile API Request Body:`, options.body);
+            }
+
+            return this.send(url, requestOptions);
+        });
+    }
+
+    /**
+     * Send a request through the transport. Only a request that could not be sent at all is a
+     * {@link NetworkError}; anything thrown later (reading the answer) is not treated as offline.
+     */
+    private async send(url: string, init: RequestInit): Promise<Response> {
+        try {
+            return await this.transport.request(url, init);
+        } catch (error) {
+            throw new NetworkError(error instanceof Error ? error.message : undefined);
+        }
+    }
+
+    /**
+     * Send a request with the current token. If the server rejects the token (401/403),
+     * re-authenticate once with the stored credentials and replay the request.
+     */
+    private async sendAuthenticated(send: (token: string) => Promise<Response>): Promise<Response> {
         const token = await this.getToken();
 
         if (!token) {
-            throw new Error('Not authenticated');
+            throw new AuthError();
         }
 
-        const headers = {
-            'Content-Type': 'application/json',
-            'Accept': 'application/json',
-            'Authorization': `Bearer ${token}`,
-            'RSRC': '31',
-            ...options.headers
-        };
+        const response = await send(token);
+        if (response.status !== 401 && response.status !== 403) {
+            return response;
+        }
 
-        const url = `${this.mobileBaseUrl}${endpoint}`;
-        const requestOptions = {
-            ...options,
-            headers
-        };
+        streamDeck.logger.warn(`API responded ${response.status}, refreshing session before retrying`);
+        const refreshed = await this.refreshSession(token);
+        const newToken = refreshed ? await this.getToken() : null;
+        if (!newToken) {
+            return response;
+        }
+
+        return send(newToken);
+    }
 
-        streamDeck.logger.info(`Mobile API Request: ${options.method || 'GET'} ${url}`);
-        streamDeck.logger.info(`Mobile API Request Headers:`, JSON.stringify(headers));
+    /**
+     * Re-login with the stored credentials. Concurrent callers share the same attempt.
+     */
+    private refreshSession(expiredToken: string): Promise<boolean> {
+        if (!this.reloginPromise) {
+            this.reloginPromise = (async () => {
+                // Another caller already replaced the token while this request was in flight
+                if (this.token && this.token !== expiredToken) {
+                    return true;
+                }
 
-        if (options.body) {
-            streamDeck.logger.info(`Mobile API Request Body:`, options.body);
+                this.token = null;
+                const success = (await this.autoLogin()).ok;
+
+                if (!success) {
+                    // Forget the rejected token so getToken() does not keep restoring it
+                    const settings = await this.loadSettings();
+                    const { password } = credentialVault.decrypt(settings.credentials);
+                    await this.saveSettings({
+                        credentials: credentialVault.encrypt({ password }),
+                        isAuthenticated: false
+                    });
+                    streamDeck.logger.error('Session refresh failed, stored token cleared');
+                }
+
+                return success;
+            })().finally(() => {
+                this.reloginPromise = null;
+            });
         }
 
-        return fetch(url, requestOptions);
+        return this.reloginPromise;
     }
 
     /**
@@ -342,6 +501,22 @@ export class SesameAPI {
      * Retrieve daily computed hour stats for a specific date range.
      */
     async getDailyComputedHourStats(employeeId: string, from: string, to: string): Promise<DailyComputedHourStat | null> {
+        const days = await this.getDailyComputedHourStatsByDay(employeeId, from, to);
+        const stats = days ? days.find(item => item.date === from) ?? days[0] ?? null : null;
+
+        if (!stats) {
+            streamDeck.logger.warn('Daily stats response missing data for requested date');
+            return null;
+        }
+
+        streamDeck.logger.info(`Daily stats retrieved: workedSeconds=${stats.workedSeconds}, secondsToWork=${stats.secondsToWork}`);
+        return stats;
+    }
+
+    /**
+     * Retrieve the daily computed hour stats of every day in a date range.
+     */
+    async getDailyComputedHourStatsByDay(employeeId: string, from: string, to: string): Promise<DailyComputedHourStat[] | null> {
         try {
             const endpoint = `/employees/${employeeId}/daily-computed-hour-stats?from=${from}&to=${to}`;
             streamDeck.logger.info(`Fetching daily stats for employee ${employeeId} from ${from} to ${to}`);
@@ -354,21 +529,10 @@ export class SesameAPI {
             }
 
             const payload = await response.json() as DailyComputedHourStatsResponse;
-            let stats: DailyComputedHourStat | null = null;
-
             if (Array.isArray(payload.data)) {
-                stats = payload.data.find(item => item.date === from) ?? payload.data[0] ?? null;
-            } else if (payload.data) {
-                stats = payload.data;
+                return payload.data;
             }
-
-            if (!stats) {
-                streamDeck.logger.warn('Daily stats response missing data for requested date');
-                return null;
-            }
-
-            streamDeck.logger.info(`Daily stats retrieved: workedSeconds=${stats.workedSeconds}, secondsToWork=${stats.secondsToWork}`);
-            return stats;
+            return payload.data ? [payload.data] : [];
         } catch (error) {
             streamDeck.logger.error('Error fetching daily stats:', error);
             return null;
@@ -418,6 +582,34 @@ export class SesameAPI {
         return await this.getEmployeeStatistics(employeeId, today, today);
     }
 
+    /**
+     * Employee statistics from the start of the day, week (Monday) or month up to today.
+     * For weeks and months, today's target only counts as far as it has been worked, so the
+     * balance is not negative by the hours still left in the working day.
+     */
+    async getPeriodStatistics(employeeId: string, period: StatsPeriod): Promise<EmployeeStatistics | null> {
+        const today = new Date();
+        const start = new Date(today);
+        if (period === 'week') {
+            start.setDate(today.getDate() - ((today.getDay() + 6) % 7));
+        } else if (period === 'month') {
+            start.setDate(1);
+        }
+
+        const stats = await this.getEmployeeStatistics(employeeId, this.formatDate(start), this.formatDate(today));
+        if (!stats || period === 'day') {
+            return stats;
+        }
+
+        const todayStats = await this.getTodayStatistics(employeeId);
+        if (!todayStats) {
+            return null;
+        }
+
+        const owedToday = Math.min(todayStats.secondsToWork, todayStats.secondsWorked);
+        return { ...stats, secondsToWork: stats.secondsToWork - todayStats.secondsToWork + owedToday };
+    }
+
     /**
      * Convenience helper to retrieve daily computed stats for today.
      */
@@ -430,22 +622,47 @@ export class SesameAPI {
      * Retrieve all checks for an employee within a date range (mobile API).
      */
     async getDailyChecks(employeeId: string, from: string, to: string): Promise<EmployeeCheck[] | null> {
+        streamDeck.logger.info(`Fetching checks for employee ${employeeId} from ${from} to ${to}`);
+        const checks: EmployeeCheck[] = [];
+        let page = 1;
+        let lastPage = 1;
+
+        // Sesame pages the checks (10 per page by default): read every page
+        do {
+            const response = await this.getChecksPage(employeeId, from, to, page);
+            if (!response) {
+                return null;
+            }
+            checks.push(...response.data);
+            lastPage = response.data.length > 0 ? response.meta.lastPage : page;
+            page++;
+        } while (page <= lastPage);
+
+        streamDeck.logger.info(`Checks retrieved count=${checks.length}`);
+        return checks;
+    }
+
+    /**
+     * One page of the checks of a date range, with the pagination meta (mobile API).
+     */
+    async getChecksPage(employeeId: string, from: string, to: string, page = 1, limit = SesameAPI.CHECKS_PAGE_SIZE): Promise<EmployeeChecksResponse | null> {
         try {
-            const endpoint = `/employees/${employeeId}/checks?from=${from}&to=${to}`;
-            streamDeck.logger.info(`Fetching checks for employee ${employeeId} from ${from} to ${to}`);
+            const endpoint = `/employees/${employeeId}/checks?from=${from}&to=${to}&page=${page}&limit=${limit}`;
+            streamDeck.logger.info(`Fetching checks page ${page} for employee ${employeeId} from ${from} to ${to}`);
             const response = await this.makeAuthenticatedMobileRequest(endpoint);
 
             if (!response.ok) {
                 const errorText = await response.text();
-                streamDeck.logger.error(`Checks request failed: ${response.status} ${response.statusText} - ${errorText}`);
+                streamDeck.logger.error(`Checks page request failed: ${response.status} ${response.statusText} - ${errorText}`);
                 throw new Error(`Failed to get checks: ${response.statusText} - ${errorText}`);
             }
 
             const payload = await response.json() as EmployeeChecksResponse;
-            streamDeck.logger.info(`Checks retrieved count=${payload.data.length}`);
-            return payload.data;
+            const meta = payload.meta ?? { currentPage: page, lastPage: page, total: payload.data.length, perPage: limit };
+            streamDeck.logger.info(`Checks page ${meta.currentPage}/${meta.lastPage} retrieved count=${payload.data.length}`);
+            return { data: payload.data, meta };
         } catch (error) {
-            streamDeck.logger.error('Error fetching daily checks:', error);
+            streamDeck.logger.error('Error fetching checks page:', error);
             return null;
         }
     }
@@ -458,16 +675,44 @@ export class SesameAPI {
         return await this.getDailyChecks(employeeId, today, today);
     }
 
+    /**
+     * Record that daily target alert `level` (0 the target, n the n-th overtime threshold) was
+     * reached on `date`. Resolves true only the first time, whichever key asks and across restarts.
+     */
+    claimTargetNotification(date: string, level: number): Promise<boolean> {
+        let claimed = false;
+        const previous = this.targetNotification ?? this.loadSettings().then(settings => settings.targetNotification ?? null);
+        const next = previous.then(async notified => {
+            if (notified && notified.date === date && notified.level >= level) {
+                return notified;
+            }
+            claimed = true;
+            await this.saveSettings({ targetNotification: { date, level } });
+            return { date, level };
+        });
+
+        this.targetNotification = next.catch(() => null);
+        return next.then(() => claimed);
+    }
+
     /**
      * Get current user status and work information (with caching)
      */
     async getWorkStatus(): Promise<WorkStatus | null> {
+        const result = await this.fetchWorkStatus();
+        return result.ok ? result.value : null;
+    }
+
+    /**
+     * Same as {@link getWorkStatus}, but reports why the status could not be retrieved
+     */
+    async fetchWorkStatus(forceRefresh = false): Promise<ApiResult<WorkStatus>> {
         const now = Date.now();
 
         // Return cached data if still fresh
-        if (this.workStatusCache && (now - this.lastWorkStatusFetch) < this.CACHE_DURATION_MS) {
+        if (!forceRefresh && this.workStatusCache && (now - this.lastWorkStatusFetch) < this.CACHE_DURATION_MS) {
             streamDeck.logger.info('Returning cached work status:', JSON.stringify(this.workStatusCache));
-            return this.workStatusCache;
+            return { ok: true, value: this.workStatusCache };
         }
 
         try {
@@ -475,34 +720,86 @@ export class SesameAPI {
             const response = await this.makeAuthenticatedRequest('/security/me');
 
             if (!response.ok) {
-                const errorText = await response.text();
-                streamDeck.logger.error(`Work status error response: ${errorText}`);
-                throw new Error(`Failed to get work status: ${response.status} ${response.statusText} - ${errorText}`);
+                const error = await errorFromResponse(response, 'Status error');
+                streamDeck.logger.error(`Work status error response: ${error.message}`);
+                throw error;
             }
 
             const data: any = await response.json();
-            streamDeck.logger.info('ESTAMOS:', JSON.stringify(data.data[0].workStatus));
+            const record = await this.selectEmployeeRecord(data.data ?? []);
+            streamDeck.logger.info('ESTAMOS:', JSON.stringify(record.workStatus));
 
             const workStatus = {
-                workStatus: data.data[0].workStatus, // 'online', 'paused', 'offline'
-                lastCheck: data.data[0].lastCheck,
-                employeeId: data.data[0].id // Employee ID from the 'id' field
+                workStatus: record.workStatus, // 'online', 'paused', 'offline'
+                lastCheck: record.lastCheck,
+                employeeId: record.id, // Employee ID from the 'id' field
+                companyId: record.company?.id ?? record.companyId ?? ''
             };
 
             // Update cache
             this.workStatusCache = workStatus;
             this.lastWorkStatusFetch = now;
 
+            if (workStatus.employeeId !== this.lastEmployeeId) {
+                this.lastEmployeeId = workStatus.employeeId;
+                await this.saveSettings({ lastEmployeeId: workStatus.employeeId });
+            }
+
             streamDeck.logger.info('Cached fresh work status:', JSON.stringify(workStatus));
 
-            return workStatus;
+            return { ok: true, value: workStatus };
         } catch (error) {
             streamDeck.logger.error('Error getting work status:', error);
             // Clear cache on error
             this.workStatusCache = null;
             this.lastWorkStatusFetch = 0;
-            return null;
+            return { ok: false, error: errorFromException(error, 'Status') };
+        }
+    }
+
+    /**
+     * Pick the chosen employee record (first one by default) and keep the list of records
+     * up to date in the profile settings for the property inspector.
+     */
+    private async selectEmployeeRecord(records: any[]): Promise<any> {
+        if (records.length === 0) {
+            throw new AuthError('No employee record for this account');
+        }
+
+        const settings = await this.loadSettings();
+        const employees: EmployeeRecord[] = records.map(record => ({
+            employeeId: record.id,
+            fullName: [record.firstName, record.lastName].filter(Boolean).join(' '),
+            companyId: record.company?.id ?? record.companyId ?? '',
+            companyName: record.company?.name ?? ''
+        }));
+
+        if (JSON.stringify(employees) !== JSON.stringify(settings.employees ?? [])) {
+            streamDeck.logger.info(`Employee records updated: ${employees.map(e => e.companyName || e.employeeId).join(', ')}`);
+            await this.saveSettings({ employees });
+        }
+
+        const selected = records.find(record => record.id === settings.selectedEmployeeId);
+        if (settings.selectedEmployeeId && !selected) {
+            streamDeck.logger.warn(`Selected employee ${settings.selectedEmployeeId} not returned by Sesame, using the first record`);
+        }
+        return selected ?? records[0];
+    }
+
+    /**
+     * Use another employee record (company) of this account for every following call
+     */
+    async selectEmployee(employeeId: string): Promise<void> {
+        const settings = await this.loadSettings();
+        const employee = settings.employees?.find(e => e.employeeId === employeeId);
+        if (!employee) {
+            streamDeck.logger.warn(`Unknown employee record: ${employeeId}`);
+            return;
         }
+
+        await this.saveSettings({ selectedEmployeeId: employeeId });
+        streamDeck.logger.info(`Profile ${this.profileId} now uses ${employee.companyName} (${employeeId})`);
+        this.clearWorkStatusCache();
     }
 
     /**
@@ -514,6 +811,13 @@ export class SesameAPI {
         streamDeck.logger.info('Work status cache cleared');
 
         // Notify all listeners that status might have changed
+        this.notifyStatusListeners();
+    }
+
+    /**
+     * Notify all listeners that status (or pending punches) might have changed
+     */
+    private notifyStatusListeners(): void {
         this.statusChangeListeners.forEach(listener => {
             try {
                 listener();
@@ -544,42 +848,29 @@ export class SesameAPI {
      * Start polling for status changes
      */
     private startPolling(): void {
-        // Stop any existing polling
-        this.stopPolling();
-
-        streamDeck.logger.info('Starting status polling (every 30 seconds)');
-
-        // Get initial status
-        this.checkForStatusChanges();
-
-        // Poll every 30 seconds
-        this.pollingInterval = setInterval(() => {
-            this.checkForStatusChanges();
-        }, this.POLLING_INTERVAL_MS);
+        this.polling.start();
     }
 
     /**
      * Stop polling for status changes
      */
     private stopPolling(): void {
-        if (this.pollingInterval) {
-            clearInterval(this.pollingInterval);
-            this.pollingInterval = null;
-            streamDeck.logger.info('Status polling stopped');
-        }
+        this.polling.stop();
     }
 
     /**
-     * Check if work status has changed and notify listeners
+     * Check if work status has changed and notify listeners. Resolves with the status, or null on error
      */
-    private async checkForStatusChanges(): Promise<void> {
+    private async checkForStatusChanges(): Promise<WorkStatusType | null> {
         try {
-            const status = await this.getWorkStatus();
+            const result = await this.fetchWorkStatus(true);
 
-            if (!status) {
-                return;
+            if (!result.ok) {
+                return null;
             }
 
+            const status = result.value;
+
             // Check if status changed
             if (this.lastKnownStatus !== null && this.lastKnownStatus !== status.workStatus) {
                 streamDeck.logger.info(`Work status changed: ${this.lastKnownStatus} -> ${status.workStatus}`);
@@ -590,18 +881,97 @@ export class SesameAPI {
 
             // Update last known status
             this.lastKnownStatus = status.workStatus;
+            this.evaluateCheckOutGuard(status);
+
+            // Sesame is reachable again: replay anything queued while offline
+            if (this.outbox.size > 0) {
+                await this.flushOutbox();
+            }
+
+            return status.workStatus;
         } catch (error) {
             streamDeck.logger.error('Error checking for status changes:', error);
+            return null;
         }
     }
 
+    /**
+     * Limits after which an open check counts as a forgotten check-out (null disables the check)
+     */
+    setCheckOutGuard(guard: CheckOutGuard | null): void {
+        this.checkOutGuard = guard;
+        if (this.workStatusCache) {
+            this.evaluateCheckOutGuard(this.workStatusCache);
+        }
+    }
+
+    /**
+     * The user pressed a key of this profile: the last activity a forgotten check-out is backdated to.
+     * Kept in the profile settings so that a restart does not lose it.
+     */
+    noteActivity(): void {
+        this.lastActivityAt = Date.now();
+        if (this.lastActivityAt - this.lastActivitySavedAt < SesameAPI.ACTIVITY_SAVE_MS) {
+            return;
+        }
+
+        this.lastActivitySavedAt = this.lastActivityAt;
+        this.saveSettings({ lastActivityAt: this.lastActivityAt }).catch(error => {
+            streamDeck.logger.error('Could not save the last activity:', error);
+        });
+    }
+
+    /**
+     * Open check that ran past the check-out guard, or null
+     */
+    get forgottenCheckOut(): ForgottenCheckOut | null {
+        return this.forgotten;
+    }
+
+    /**
+     * Check out at the time proposed for the forgotten check-out
+     */
+    async checkOutForgotten(employeeId: string, options: PunchOptions = {}): Promise<ApiResult<CheckInResponse>> {
+        const forgotten = this.forgotten;
+        if (!forgotten) {
+            return await this.checkOut(employeeId, options);
+        }
+
+        streamDeck.logger.info(`Checking out forgotten check ${forgotten.checkId} at ${forgotten.checkOutAt}`);
+        const result = await this.checkOut(employeeId, { ...options, date: forgotten.checkOutAt });
+        if (result.ok) {
+            this.forgotten = null;
+        }
+        return result;
+    }
+
+    /**
+     * Detect a forgotten check-out once per check. The proposed time is kept from the moment it was
+     * detected, so the press that accepts it does not move it. Keys are notified when it changes.
+     */
+    private evaluateCheckOutGuard(status: WorkStatus): void {
+        const detected = this.checkOutGuard ? detectForgottenCheckOut(status, this.checkOutGuard, this.lastActivityAt) : null;
+        if (detected?.checkId === this.forgotten?.checkId && !!detected === !!this.forgotten) {
+            return;
+        }
+
+        this.forgotten = detected;
+        streamDeck.logger.info(detected
+            ? `Forgotten check-out detected (${detected.reason}), proposed at ${detected.checkOutAt}`
+            : 'Forgotten check-out cleared');
+        this.notifyStatusListeners();
+    }
+
     /**
      * Initialize polling if authenticated
      */
     async initializePolling(): Promise<void> {
         // Restore region URLs from saved settings before any API calls
-        const settings = await streamDeck.settings.getGlobalSettings<GlobalPluginSettings>();
+        const settings = await this.loadSettings();
         this.applyRegionFromSettings(settings);
+        this.lastEmployeeId = settings.lastEmployeeId ?? null;
+        this.lastActivityAt = Math.max(this.lastActivityAt, settings.lastActivityAt ?? 0);
+        await this.outbox.list();
 
         const isAuth = await this.isAuthenticated();
         if (isAuth) {
@@ -624,6 +994,17 @@ export class SesameAPI {
         return workTimeSeconds;
     }
 
+    /**
+     * Moment the worked seconds reach the target, assuming work continues from `at`.
+     * In the past once the target is reached; null without a target.
+     */
+    calculateTargetReachedAt(secondsWorked: number, secondsToWork: number, at: number = Date.now()): Date | null {
+        if (secondsToWork <= 0) {
+            return null;
+        }
+        return new Date(at + (secondsToWork - secondsWorked) * 1000);
+    }
+
     /**
      * Format work time in HH:MM format
      */
@@ -636,75 +1017,152 @@ export class SesameAPI {
     /**
      * Check in to work
      */
-    async checkIn(employeeId: string): Promise<CheckInResponse | null> {
+    async checkIn(employeeId: string, options: PunchOptions = {}): Promise<ApiResult<CheckInResponse>> {
+        const body = {
+            origin: "web",
+            coordinates: options.coordinates ?? {},
+            workCheckTypeId: options.workCheckTypeId ?? null,
+            ...(options.date ? { date: options.date } : {})
+        };
+        let status: number | null = null;
         try {
-            streamDeck.logger.info(`Attempting check-in for employee: ${employeeId}`);
+            streamDeck.logger.info(`Attempting check-in for employee: ${employeeId} with check type: ${options.workCheckTypeId ?? 'none'}`);
             const response = await this.makeAuthenticatedRequest(`/employees/${employeeId}/check-in`, {
                 method: 'POST',
-                body: JSON.stringify({
-                    origin: "web",
-                    coordinates: {},
-                    workCheckTypeId: null
-                })
+                body: JSON.stringify(body)
             });
+            status = response.status;
 
             streamDeck.logger.info(`Check-in response status: ${response.status} ${response.statusText}`);
 
             if (!response.ok) {
-                const errorText = await response.text();
-                streamDeck.logger.error(`Check-in failed: ${response.status} ${response.statusText} - ${errorText}`);
-                this._lastError = `Check-in failed (${response.status})`;
-                throw new Error(`Check-in failed: ${response.statusText} - ${errorText}`);
+                const error = await errorFromResponse(response, 'Check-in failed');
+                streamDeck.logger.error(`Check-in failed: ${response.status} ${response.statusText} - ${error.message}`);
+                throw error;
             }
 
             const data = await response.json();
             streamDeck.logger.info('Check-in successful:', data);
+            await this.journalPunch('checkIn', options, body, status, data);
 
             // Clear cache since work status changed
+            this.polling.notePunch();
             this.clearWorkStatusCache();
 
-            return data as CheckInResponse;
+            return { ok: true, value: data as CheckInResponse };
         } catch (error) {
             streamDeck.logger.error('Check-in error:', error);
-            this._lastError = this._lastError || (error instanceof Error ? error.message : 'Check-in failed');
-            return null;
+            const apiError = errorFromException(error, 'Check-in');
+            await this.journalPunch('checkIn', options, body, status, null, apiError.message);
+            return { ok: false, error: apiError };
         }
     }
 
     /**
      * Pause work with selected work break
      */
-    async pause(employeeId: string, workBreakId: string): Promise<PauseResponse | null> {
+    async pause(employeeId: string, workBreakId: string, options: PunchOptions = {}): Promise<ApiResult<PauseResponse>> {
+        const body = {
+            workBreakId: workBreakId,
+            ...(options.coordinates ? { coordinates: options.coordinates } : {}),
+            ...(options.date ? { date: options.date } : {})
+        };
+        let status: number | null = null;
         try {
             streamDeck.logger.info(`Attempting pause for employee: ${employeeId} with workBreak: ${workBreakId}`);
             const response = await this.makeAuthenticatedRequest(`/employees/${employeeId}/pause`, {
                 method: 'POST',
-                body: JSON.stringify({
-                    workBreakId: workBreakId
-                })
+                body: JSON.stringify(body)
             });
+            status = response.status;
 
             streamDeck.logger.info(`Pause response status: ${response.status} ${response.statusText}`);
 
             if (!response.ok) {
-                const errorText = await response.text();
-                streamDeck.logger.error(`Pause failed: ${response.status} ${response.statusText} - ${errorText}`);
-                this._lastError = `Pause failed (${response.status})`;
-                throw new Error(`Pause failed: ${response.statusText} - ${errorText}`);
+                const error = await errorFromResponse(response, 'Pause failed');
+                streamDeck.logger.error(`Pause failed: ${response.status} ${response.statusText} - ${error.message}`);
+                throw error;
             }
 
-            const data = await response.json();
+            const data = await response.json() as PauseResponse;
             streamDeck.logger.info('Pause successful:', data);
+            await this.journalPunch('pause', options, body, status, data);
+
+            // Poll faster around the time the break is due to end
+            const pauseStart = data.data?.checkIn?.date ? new Date(data.data.checkIn.date) : new Date();
+            const breakMinutes = data.data?.workBreak?.breakMinutes;
+            this.polling.setBreakEnd(breakMinutes ? new Date(pauseStart.getTime() + breakMinutes * 60000) : null);
 
             // Clear cache since work status changed
+            this.polling.notePunch();
             this.clearWorkStatusCache();
 
-            return data as PauseResponse;
+            return { ok: true, value: data };
         } catch (error) {
             streamDeck.logger.error('Pause error:', error);
-            this._lastError = this._lastError || (error instanceof Error ? error.message : 'Pause failed');
-            return null;
+            const apiError = errorFromException(error, 'Pause');
+            await this.journalPunch('pause', options, body, status, null, apiError.message);
+            return { ok: false, error: apiError };
+        }
+    }
+
+    /**
+     * End the active pause by checking in again with the pause check's work check type and coordinates
+     */
+    async resume(employeeId: string, pauseCheck: LastCheck | null, options: PunchOptions = {}): Promise<ApiResult<CheckInResponse>> {
+        streamDeck.logger.info(`Resuming work after pause ${pauseCheck?.checkId ?? 'unknown'}`);
+        const result = await this.checkIn(employeeId, {
+            ...options,
+            workCheckTypeId: pauseCheck?.checkInWorkCheckTypeId ?? null,
+            coordinates: pauseCheck?.checkInCoordinates ?? undefined
+        });
+
+        if (result.ok) {
+            this.polling.setBreakEnd(null);
+        }
+
+        return result;
+    }
+
+    /**
+     * Send a punch the user forgot, backdated to `at` (today) once it fits today's checks.
+     * Checking in while paused resumes work; pauses without a break use the first active one.
+     */
+    async correctPunch(kind: PunchKind, at: Date, workBreakId?: string, options: PunchOptions = {}): Promise<ApiResult<CheckInResponse | PauseResponse>> {
+        const status = await this.fetchWorkStatus(true);
+        if (!status.ok) {
+            return status;
+        }
+
+        const workStatus = status.value;
+        const checks = await this.getTodayChecks(workStatus.employeeId);
+        if (!checks) {
+            return { ok: false, error: new ServerError("Could not load today's checks") };
+        }
+
+        const problem = validateCorrection(kind, at, workStatus, checks);
+        if (problem) {
+            return { ok: false, error: new ValidationError(problem) };
+        }
+
+        streamDeck.logger.info(`Correcting ${kind} at ${at.toISOString()}`);
+        const backdated = { ...options, date: at.toISOString() };
+
+        if (kind === 'checkIn') {
+            return workStatus.workStatus === 'paused'
+                ? await this.resume(workStatus.employeeId, workStatus.lastCheck, backdated)
+                : await this.checkIn(workStatus.employeeId, backdated);
+        }
+
+        if (kind === 'checkOut') {
+            return await this.checkOut(workStatus.employeeId, backdated);
+        }
+
+        const breakId = workBreakId || (await this.getAllWorkBreaks(workStatus.employeeId) ?? []).find(wb => wb.active)?.id;
+        if (!breakId) {
+            return { ok: false, error: new ValidationError('No break to pause with') };
         }
+        return await this.pause(workStatus.employeeId, breakId, backdated);
     }
 
     /**
@@ -731,47 +1189,328 @@ export class SesameAPI {
         }
     }
 
+    /**
+     * Get the work check types (office, remote...) available to an employee
+     */
+    async getWorkCheckTypes(employeeId: string): Promise<WorkCheckType[] | null> {
+        try {
+            streamDeck.logger.info(`Fetching work check types for employee: ${employeeId}`);
+            const response = await this.makeAuthenticatedRequest(`/employees/${employeeId}/work-check-types`);
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                streamDeck.logger.error(`Get work check types failed: ${response.status} ${response.statusText} - ${errorText}`);
+                throw new Error(`Failed to get work check types: ${response.statusText} - ${errorText}`);
+            }
+
+            const data = await response.json() as WorkCheckTypesResponse;
+            streamDeck.logger.info(`Retrieved ${data.data.length} work check types`);
+
+            return data.data;
+        } catch (error) {
+            streamDeck.logger.error('Get work check types error:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Colleagues currently checked in or on a break (all pages of /whosin-online)
+     */
+    async getWhosInOnline(): Promise<TeamMember[] | null> {
+        return await this.getWhosIn('/whosin-online', 'online');
+    }
+
+    /**
+     * Colleagues currently checked out (all pages of /whosin-offline)
+     */
+    async getWhosInOffline(): Promise<TeamMember[] | null> {
+        return await this.getWhosIn('/whosin-offline', 'offline');
+    }
+
+    /**
+     * Employees of a company that are working or paused right now
+     */
+    async getWorkingEmployees(companyId: string): Promise<TeamMember[] | null> {
+        try {
+            streamDeck.logger.info(`Fetching working employees of company: ${companyId}`);
+            const response = await this.makeAuthenticatedMobileRequest(`/companies/${companyId}/working-employees`);
+
+            if (!response.ok) {
+                const errorText = await response.text();
+                streamDeck.logger.error(`Get working employees failed: ${response.status} ${response.statusText} - ${errorText}`);
+                throw new Error(`Failed to get working employees: ${response.statusText} - ${errorText}`);
+            }
+
+            const data = await response.json() as TeamMembersResponse;
+            streamDeck.logger.info(`Retrieved ${data.data.length} working employees`);
+
+            return data.data.map(raw => toTeamMember(raw, 'online'));
+        } catch (error) {
+            streamDeck.logger.error('Get working employees error:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Read every page of a whos-in list, up to the last page the server reports
+     */
+    private async getWhosIn(endpoint: string, defaultStatus: WorkStatusType): Promise<TeamMember[] | null> {
+        try {
+            const members: TeamMember[] = [];
+            let page = 1;
+            let lastPage = 1;
+
+            do {
+                streamDeck.logger.info(`Fetching ${endpoint} page ${page}`);
+                const response = await this.makeAuthenticatedMobileRequest(`${endpoint}?page=${page}&limit=${SesameAPI.WHOS_IN_PAGE_SIZE}`);
+
+                if (!response.ok) {
+                    const errorText = await response.text();
+                    streamDeck.logger.error(`Get ${endpoint} failed: ${response.status} ${response.statusText} - ${errorText}`);
+                    throw new Error(`Failed to get ${endpoint}: ${response.statusText} - ${errorText}`);
+                }
+
+                const data = await response.json() as TeamMembersResponse;
+                members.push(...data.data.map(raw => toTeamMember(raw, defaultStatus)));
+                // An empty page ends the list even if the server reports more
+                lastPage = data.data.length > 0 ? data.meta?.lastPage ?? 1 : page;
+                page++;
+            } while (page <= lastPage);
+
+            streamDeck.logger.info(`Retrieved ${members.length} employees from ${endpoint}`);
+            return members;
+        } catch (error) {
+            streamDeck.logger.error(`Get ${endpoint} error:`, error);
+            return null;
+        }
+    }
+
     /**
      * Check out from work
      */
-    async checkOut(employeeId: string): Promise<CheckInResponse | null> {
+    async checkOut(employeeId: string, options: PunchOptions = {}): Promise<ApiResult<CheckInResponse>> {
+        const body = {
+            origin: "web",
+            coordinates: options.coordinates ?? {},
+            workCheckTypeId: options.workCheckTypeId ?? null,
+            ...(options.date ? { date: options.date } : {})
+        };
+        let status: number | null = null;
         try {
-            streamDeck.logger.info(`Attempting check-out for employee: ${employeeId}`);
+            streamDeck.logger.info(`Attempting check-out for employee: ${employeeId} with check type: ${options.workCheckTypeId ?? 'none'}`);
             const response = await this.makeAuthenticatedRequest(`/employees/${employeeId}/check-out`, {
                 method: 'POST',
-                body: JSON.stringify({
-                    origin: "web",
-                    coordinates: {},
-                    workCheckTypeId: null
-                })
+                body: JSON.stringify(body)
             });
+            status = response.status;
 
             streamDeck.logger.info(`Check-out response status: ${response.status} ${response.statusText}`);
 
             if (!response.ok) {
-                const errorText = await response.text();
-                streamDeck.logger.error(`Check-out failed: ${response.status} ${response.statusText} - ${errorText}`);
-                this._lastError = `Check-out failed (${response.status})`;
-                throw new Error(`Check-out failed: ${response.statusText} - ${errorText}`);
+                const error = await errorFromResponse(response, 'Check-out failed');
+                streamDeck.logger.error(`Check-out failed: ${response.status} ${response.statusText} - ${error.message}`);
+                throw error;
             }
 
             const data = await response.json();
             streamDeck.logger.info('Check-out successful:', data);
+            await this.journalPunch('checkOut', options, body, status, data);
 
             // Clear cache since work status changed
+            this.polling.notePunch();
             this.clearWorkStatusCache();
 
-            return data as CheckInResponse;
+            return { ok: true, value: data as CheckInResponse };
         } catch (error) {
             streamDeck.logger.error('Check-out error:', error);
-            this._lastError = this._lastError || (error instanceof Error ? error.message : 'Check-out failed');
+            const apiError = errorFromException(error, 'Check-out');
+            await this.journalPunch('checkOut', options, body, status, null, apiError.message);
+            return { ok: false, error: apiError };
+        }
+    }
+
+    /**
+     * Record a punch in the audit journal. A journal that cannot be written never fails the punch.
+     */
+    private async journalPunch(punch: PunchKind, options: PunchOptions, body: Record<string, unknown>, status: number | null, data: any, error: string | null = null): Promise<void> {
+        try {
+            await punchJournal.append({
+                timestamp: new Date().toISOString(),
+                profileId: this.profileId,
+                punch,
+                actionUUID: options.actionUUID ?? null,
+                request: body,
+                status,
+                responseId: data?.data?.id ?? null,
+                workStatus: data?.data?.workStatus ?? null,
+                error
+            });
+        } catch (journalError) {
+            streamDeck.logger.error('Could not write the punch journal:', journalError);
+        }
+    }
+
+    /**
+     * Coordinates for a punch: the key's preset, else the profile default, possibly
+     * overridden by the installed coordinate provider
+     */
+    async resolvePunchCoordinates(presetId?: string): Promise<Coordinates | undefined> {
+        const settings = await this.loadSettings();
+        return await resolveCoordinates(this.profileId, settings.coordinatePresets ?? [], presetId, settings.defaultCoordinatePresetId);
+    }
+
+    /**
+     * Number of punches waiting in the offline outbox
+     */
+    get pendingPunchCount(): number {
+        return this.outbox.size;
+    }
+
+    /**
+     * Queue a punch pressed while Sesame is unreachable; it is replayed with its original time
+     * once connectivity returns. Returns null if the employee was never resolved on this machine.
+     */
+    async queuePunch(kind: PunchKind, details: PunchDetails = {}): Promise<PendingPunch | null> {
+        const employeeId = this.workStatusCache?.employeeId ?? this.lastEmployeeId;
+        if (!employeeId) {
+            streamDeck.logger.warn(`Outbox: cannot queue ${kind}, employee unknown`);
             return null;
         }
+
+        const punch = await this.outbox.enqueue(kind, employeeId, details);
+        this.notifyStatusListeners();
+        return punch;
+    }
+
+    /**
+     * Replay queued punches in order. Stops at the first transient failure; punches the
+     * server no longer accepts are dropped and reported to the conflict listeners.
+     */
+    async flushOutbox(): Promise<void> {
+        if (!this.flushPromise) {
+            this.flushPromise = this.replayPendingPunches().finally(() => {
+                this.flushPromise = null;
+            });
+        }
+        return this.flushPromise;
+    }
+
+    /**
+     * Add a listener for queued punches that could not be replayed
+     */
+    public addPunchConflictListener(listener: (conflict: PunchConflict) => void): void {
+        this.punchConflictListeners.push(listener);
+    }
+
+    /**
+     * Remove a punch conflict listener
+     */
+    public removePunchConflictListener(listener: (conflict: PunchConflict) => void): void {
+        const index = this.punchConflictListeners.indexOf(listener);
+        if (index > -1) {
+            this.punchConflictListeners.splice(index, 1);
+        }
+    }
+
+    private async replayPendingPunches(): Promise<void> {
+        const punches = await this.outbox.list();
+
+        for (const punch of punches) {
+            // Always compare against the live server state, not the cache
+            this.workStatusCache = null;
+            const status = await this.fetchWorkStatus();
+            if (!status.ok) {
+                streamDeck.logger.warn(`Outbox: replay postponed, status unavailable (${status.error.kind})`);
+                break;
+            }
+
+            const conflict = this.findPunchConflict(punch, status.value);
+            if (conflict) {
+                await this.rejectPunch(punch, conflict);
+                continue;
+            }
+
+            const options = { date: punch.date, workCheckTypeId: punch.workCheckTypeId, coordinates: punch.coordinates };
+            const result = punch.kind === 'checkIn'
+                ? await this.checkIn(punch.employeeId, options)
+                : punch.kind === 'checkOut'
+                    ? await this.checkOut(punch.employeeId, options)
+                    : await this.pause(punch.employeeId, punch.workBreakId ?? '', options);
+
+            if (!result.ok) {
+                if (result.error.kind === 'validation' || result.error.kind === 'already-checked-in') {
+                    await this.rejectPunch(punch, result.error.message);
+                    continue;
+                }
+                streamDeck.logger.warn(`Outbox: replay postponed (${result.error.kind})`);
+                break;
+            }
+
+            streamDeck.logger.info(`Outbox: replayed ${punch.kind} from ${punch.date}`);
+            await this.outbox.remove(punch.id);
+        }
+
+        this.notifyStatusListeners();
+    }
+
+    /**
+     * Explain why a queued punch cannot be replayed on top of the current server state, if so.
+     */
+    private findPunchConflict(punch: PendingPunch, status: WorkStatus): string | null {
+        const allowedFrom: Record<PunchKind, WorkStatusType[]> = {
+            checkIn: ['offline', 'paused'],
+            checkOut: ['online', 'paused'],
+            pause: ['online']
+        };
+
+        if (punch.employeeId !== status.employeeId) {
+            return 'Punch belongs to another employee';
+        }
+
+        if (!allowedFrom[punch.kind].includes(status.workStatus)) {
+            return `Sesame already shows you ${status.workStatus}`;
+        }
+
+        // Someone punched from another device after this key press
+        const lastChange = status.lastCheck?.checkOutDatetime ?? status.lastCheck?.checkInDatetime;
+        if (lastChange && new Date(lastChange).getTime() > new Date(punch.date).getTime()) {
+            return `State changed in Sesame at ${new Date(lastChange).toLocaleTimeString()}`;
+        }
+
+        return null;
+    }
+
+    private async rejectPunch(punch: PendingPunch, reason: string): Promise<void> {
+        streamDeck.logger.warn(`Outbox: dropping ${punch.kind} from ${punch.date}: ${reason}`);
+        await this.outbox.remove(punch.id);
+
+        const conflict = { punch, reason };
+        this.punchConflictListeners.forEach(listener => {
+            try {
+                listener(conflict);
+            } catch (error) {
+                streamDeck.logger.error('Error in punch conflict listener:', error);
+            }
+        });
     }
 }
 
-// Singleton instance
-export const sesameAPI = new SesameAPI();
+/**
+ * Normalize a colleague from the whos-in lists (employee records) or working-employees (flat rows)
+ */
+function toTeamMember(raw: any, defaultStatus: WorkStatusType): TeamMember {
+    const employee = raw.employee ?? raw;
+    const fullName = raw.fullName ?? employee.fullName ?? [employee.firstName, employee.lastName].filter(Boolean).join(' ');
+
+    return {
+        employeeId: raw.employeeId ?? employee.id ?? '',
+        fullName: fullName || 'Unknown',
+        workStatus: raw.workStatus ?? employee.workStatus ?? defaultStatus,
+        checkInTime: raw.checkInTime ?? employee.lastCheck?.checkInDatetime ?? null,
+        pauseStartTime: raw.pauseStartTime ?? null,
+        checkOutTime: raw.checkOutTime ?? employee.lastCheck?.checkOutDatetime ?? null
+    };
+}
 
 // Types
 export type WorkStatusType = 'online' | 'paused' | 'offline';
@@ -800,6 +1539,24 @@ export interface WorkBreaksResponse {
     };
 }
 
+export interface WorkCheckType {
+    id: string;
+    name: string;
+    color?: string;
+    icon?: string;
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+export interface WorkCheckTypesResponse {
+    data: WorkCheckType[];
+    meta?: {
+        currentPage: number;
+        lastPage: number;
+        total: number;
+        perPage: number;
+    };
+}
+
 export interface PauseResponse {
     data: {
         accumulatedSeconds: number;
@@ -850,10 +1607,55 @@ export interface LastCheck {
     };
 }
 
+/**
+ * Extra fields accepted by the check-in, check-out and pause endpoints.
+ */
+export interface PunchOptions {
+    date?: string; // ISO timestamp, used to replay punches at their original time
+    workCheckTypeId?: string | null; // Check-in/check-out only
+    coordinates?: Coordinates; // Location policy; omitted (empty) when not configured
+    actionUUID?: string; // Stream Deck action making the punch, for the journal (not sent)
+}
+
+/**
+ * A colleague and what they are doing right now.
+ */
+export interface TeamMember {
+    employeeId: string;
+    fullName: string;
+    workStatus: WorkStatusType;
+    checkInTime: string | null; // Start of the current work session
+    pauseStartTime: string | null; // Start of the current break, when paused
+    checkOutTime: string | null; // Last check-out, when offline
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+export interface TeamMembersResponse {
+    data: any[];
+    meta?: {
+        currentPage: number;
+        lastPage: number;
+        total: number;
+        perPage: number;
+    };
+}
+
+/**
+ * One employee/company pair the account can punch as.
+ */
+export interface EmployeeRecord {
+    employeeId: string;
+    fullName: string;
+    companyId: string;
+    companyName: string;
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
 export interface WorkStatus {
     workStatus: WorkStatusType;
     lastCheck: LastCheck | null;
     employeeId: string;
+    companyId: string;
 }
 
 export interface CheckInResponse {
@@ -875,6 +1677,8 @@ export interface EmployeeStatisticsResponse {
     };
 }
 
+export type StatsPeriod = 'day' | 'week' | 'month';
+
 export interface EmployeeStatistics {
     secondsWorked: number;
     secondsToWork: number;
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { AlreadyCheckedInError, AuthError, errorFromException, errorFromResponse, NetworkError, RateLimitError, ServerError, ValidationError } from "./sesame-errors";
+
+function response(status: number, apiMessage?: string, headers: Record<string, string> = {}): Response {
+    const body = apiMessage ? JSON.stringify({ error: { code: status, message: apiMessage } }) : 'Bad gateway';
+    return new Response(body, { status, headers });
+}
+
+describe('errorFromResponse', () => {
+    it.each([
+        [401, AuthError, 'auth'],
+        [403, AuthError, 'auth'],
+        [404, ServerError, 'server'],
+        [400, ValidationError, 'validation'],
+        [409, ValidationError, 'validation'],
+        [422, ValidationError, 'validation'],
+        [429, RateLimitError, 'rate-limit'],
+        [500, ServerError, 'server'],
+        [502, ServerError, 'server'],
+        [503, ServerError, 'server']
+    ])('maps %i to %O', async (status, type, kind) => {
+        const error = await errorFromResponse(response(status, 'something_failed'), 'Check-in');
+        expect(error).toBeInstanceOf(type);
+        expect(error).toMatchObject({ kind, status, message: 'something_failed' });
+    });
+
+    it('translates known API messages', async () => {
+        const error = await errorFromResponse(response(401, 'invalid_credentials'), 'Login');
+        expect(error.message).toBe('Email o contraseña incorrectos');
+    });
+
+    it('falls back to the context and status without an API message', async () => {
+        const error = await errorFromResponse(response(502), 'Status error');
+        expect(error.message).toBe('Status error (502)');
+    });
+
+    it('recognises a check-in rejected because the employee is already in', async () => {
+        expect(await errorFromResponse(response(422, 'already_checked_in'), 'Check-in')).toBeInstanceOf(AlreadyCheckedInError);
+        expect(await errorFromResponse(response(409, 'El empleado ya ha fichado'), 'Check-in')).toBeInstanceOf(AlreadyCheckedInError);
+    });
+
+    it('reads Retry-After on a 429', async () => {
+        expect(await errorFromResponse(response(429, 'too_many_attempts', { 'Retry-After': '30' }), 'Login')).toMatchObject({ retryAfterSeconds: 30 });
+        expect(await errorFromResponse(response(429, 'too_many_attempts', { 'Retry-After': 'soon' }), 'Login')).toMatchObject({ retryAfterSeconds: undefined });
+    });
+});
+
+describe('errorFromException', () => {
+    it('passes the network error of a failed transport through', () => {
+        const error = new NetworkError('fetch failed');
+        expect(errorFromException(error, 'Check-in')).toBe(error);
+    });
+
+    it('keeps other Sesame errors', () => {
+        const error = new AuthError();
+        expect(errorFromException(error, 'Check-in')).toBe(error);
+    });
+
+    it('treats anything else as unexpected, even a TypeError', () => {
+        expect(errorFromException(new TypeError('Cannot read properties of undefined'), 'Check-in')).toMatchObject({ kind: 'server', message: 'Cannot read properties of undefined' });
+        expect(errorFromException(new SyntaxError('Unexpected token <'), 'Check-in').kind).toBe('server');
+        expect(errorFromException('boom', 'Check-in')).toMatchObject({ kind: 'server', message: 'Check-in failed' });
+    });
+});
@@ -0,0 +1,148 @@
+/**
+ * Typed errors returned by {@link SesameAPI} calls instead of a shared mutable error string.
+ */
+export type SesameErrorKind =
+    | 'auth'
+    | 'network'
+    | 'region'
+    | 'rate-limit'
+    | 'validation'
+    | 'already-checked-in'
+    | 'conflict'
+    | 'server';
+
+/**
+ * Result of an API call: either the value or the error that prevented it.
+ */
+export type ApiResult<T> = { ok: true; value: T } | { ok: false; error: SesameError };
+
+const ERROR_MESSAGES: Record<string, string> = {
+    'invalid_credentials': 'Email o contraseña incorrectos',
+    'user_not_found': 'Usuario no encontrado',
+    'account_locked': 'Cuenta bloqueada',
+    'too_many_attempts': 'Demasiados intentos',
+};
+
+export class SesameError extends Error {
+    constructor(readonly kind: SesameErrorKind, message: string, readonly status?: number) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Invalid credentials, missing login or a session that could not be refreshed.
+ */
+export class AuthError extends SesameError {
+    constructor(message = 'Not authenticated', status?: number) {
+        super('auth', message, status);
+    }
+}
+
+/**
+ * The request never reached Sesame (offline, DNS, TLS, timeout...).
+ */
+export class NetworkError extends SesameError {
+    constructor(message = 'Network unavailable') {
+        super('network', message);
+    }
+}
+
+/**
+ * The pre-login endpoint could not resolve the account's region.
+ */
+export class RegionError extends SesameError {
+    constructor(message = 'Region resolution failed', status?: number) {
+        super('region', message, status);
+    }
+}
+
+/**
+ * Sesame answered 429. `retryAfterSeconds` comes from the Retry-After header when present.
+ */
+export class RateLimitError extends SesameError {
+    constructor(message = 'Too many requests', readonly retryAfterSeconds?: number) {
+        super('rate-limit', message, 429);
+    }
+}
+
+/**
+ * Sesame rejected the request payload (400/422).
+ */
+export class ValidationError extends SesameError {
+    constructor(message: string, status?: number) {
+        super('validation', message, status);
+    }
+}
+
+/**
+ * Check-in rejected because the employee is already checked in.
+ */
+export class AlreadyCheckedInError extends SesameError {
+    constructor(message = 'Already checked in', status?: number) {
+        super('already-checked-in', message, status);
+    }
+}
+
+/**
+ * A punch queued offline could not be replayed because the server state changed meanwhile.
+ */
+export class ConflictError extends SesameError {
+    constructor(message: string) {
+        super('conflict', message);
+    }
+}
+
+/**
+ * Any other unexpected response (5xx, malformed body...).
+ */
+export class ServerError extends SesameError {
+    constructor(message: string, status?: number) {
+        super('server', message, status);
+    }
+}
+
+/**
+ * Build a typed error from a non-OK response. Consumes the response body.
+ */
+export async function errorFromResponse(response: Response, context: string): Promise<SesameError> {
+    const body = await response.text().catch(() => '');
+    let apiMessage: string | undefined;
+    try {
+        apiMessage = JSON.parse(body)?.error?.message;
+    } catch {
+        apiMessage = undefined;
+    }
+
+    const message = (apiMessage && ERROR_MESSAGES[apiMessage]) || apiMessage || `${context} (${response.status})`;
+
+    if (response.status === 401 || response.status === 403) {
+        return new AuthError(message, response.status);
+    }
+
+    if (response.status === 429) {
+        const retryAfter = Number(response.headers.get('Retry-After'));
+        return new RateLimitError(message, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+    }
+
+    if (response.status === 400 || response.status === 409 || response.status === 422) {
+        if (apiMessage && /already.?checked.?in|ya.*fichad/i.test(apiMessage)) {
+            return new AlreadyCheckedInError(message, response.status);
+        }
+        return new ValidationError(message, response.status);
+    }
+
+    return new ServerError(message, response.status);
+}
+
+/**
+ * Normalise a thrown value: SesameErrors pass through (including the {@link NetworkError} the
+ * API raises when the transport fails), anything else is unexpected.
+ */
+export function errorFromException(error: unknown, context: string): SesameError {
+    if (error instanceof SesameError) {
+        return error;
+    }
+
+    return new ServerError(error instanceof Error ? error.message : `${context} failed`);
+}
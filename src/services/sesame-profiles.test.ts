@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const globalSettings = vi.hoisted(() => ({ current: {} as Record<string, any> }));
+
+vi.mock("@elgato/streamdeck", () => ({
+    default: {
+        logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn() },
+        settings: {
+            getGlobalSettings: async () => structuredClone(globalSettings.current),
+            setGlobalSettings: async (settings: Record<string, any>) => { globalSettings.current = structuredClone(settings); }
+        }
+    }
+}));
+
+import { MockSesameServer } from "./mock-sesame-server";
+import { SesameProfiles } from "./sesame-profiles";
+
+describe('SesameProfiles', () => {
+    let profiles: SesameProfiles;
+
+    beforeEach(() => {
+        globalSettings.current = {};
+        profiles = new SesameProfiles(new MockSesameServer().transport);
+    });
+
+    afterEach(() => {
+        for (const id of ['default', 'work']) {
+            profiles.get(id).polling.stop();
+        }
+    });
+
+    it('moves the single-account fields into the default profile', async () => {
+        const credentials = { v: 1, iv: 'iv', tag: 'tag', data: 'data' };
+        globalSettings.current = {
+            email: 'ana@example.com',
+            credentials,
+            storePassword: true,
+            isAuthenticated: true,
+            region: 'eu1',
+            backSubdomain: 'back-eu1',
+            backMobileSubdomain: 'back-mobile-eu1',
+            lastEmployeeId: 'employee-1',
+            workingHours: { start: '09:00', end: '18:00', weekdays: [] }
+        };
+
+        expect(await profiles.load('default')).toEqual({
+            name: 'ana@example.com',
+            email: 'ana@example.com',
+            credentials,
+            storePassword: true,
+            isAuthenticated: true,
+            region: 'eu1',
+            backSubdomain: 'back-eu1',
+            backMobileSubdomain: 'back-mobile-eu1',
+            lastEmployeeId: 'employee-1'
+        });
+
+        await profiles.save('default', { lastEmployeeId: 'employee-2' });
+        expect(Object.keys(globalSettings.current).sort()).toEqual(['profiles', 'workingHours']);
+        expect(globalSettings.current.profiles.default).toMatchObject({ email: 'ana@example.com', lastEmployeeId: 'employee-2' });
+    });
+
+    it('starts with an empty default profile', async () => {
+        expect(await profiles.list()).toEqual([{ id: 'default', name: 'Default', email: undefined, isAuthenticated: false }]);
+    });
+
+    it('keeps concurrent saves of different profiles', async () => {
+        await Promise.all([
+            profiles.save('default', { email: 'ana@example.com' }),
+            profiles.save('work', { name: 'Work', email: 'ana@company.com' })
+        ]);
+
+        expect((await profiles.list()).map(profile => [profile.id, profile.email])).toEqual([
+            ['default', 'ana@example.com'],
+            ['work', 'ana@company.com']
+        ]);
+    });
+
+    it('gives every profile its own API client and falls back to the default one', () => {
+        expect(profiles.get('work')).toBe(profiles.get('work'));
+        expect(profiles.get('work')).not.toBe(profiles.get('default'));
+        expect(profiles.get(undefined)).toBe(profiles.get('default'));
+    });
+
+    it('deletes created profiles but only logs out of the default one', async () => {
+        await profiles.save('default', { email: 'ana@example.com', isAuthenticated: true });
+        const id = await profiles.create('  ');
+
+        expect((await profiles.list()).find(profile => profile.id === id)?.name).toBe('Profile');
+
+        await profiles.remove(id);
+        await profiles.remove('default');
+        expect(await profiles.list()).toEqual([{ id: 'default', name: 'Default', email: undefined, isAuthenticated: false }]);
+    });
+});
@@ -0,0 +1,246 @@
+import streamDeck from "@elgato/streamdeck";
+import { HttpTransport, resolveTransport } from "./http-transport";
+import { PunchConflict } from "./punch-outbox";
+import { WorkingHours } from "./polling-scheduler";
+import { CheckOutGuard } from "./check-out-guard";
+import { ProfileSettings, ProfileStore, SesameAPI } from "./sesame-api";
+
+/**
+ * Global settings: one entry per Sesame account plus settings shared by all of them.
+ * Fields of the single-account layout are migrated into the default profile on load.
+ */
+interface GlobalPluginSettings {
+    profiles?: Record<string, ProfileSettings>;
+    workingHours?: WorkingHours; // Status polling idles outside these hours
+    checkOutGuard?: CheckOutGuard; // Open checks past these limits are reported as forgotten check-outs
+    [key: string]: any; // Index signature for JsonObject compatibility
+}
+
+/**
+ * What the property inspector needs to list a profile.
+ */
+export interface ProfileSummary {
+    id: string;
+    name: string;
+    email?: string;
+    isAuthenticated: boolean;
+}
+
+const LEGACY_PROFILE_FIELDS = [
+    'email', 'credentials', 'storePassword', 'password', 'token', 'isAuthenticated',
+    'region', 'backSubdomain', 'backMobileSubdomain', 'lastEmployeeId', 'pendingPunches',
+    'availableWorkBreaks', 'workBreaksLastUpdated'
+];
+
+/**
+ * Named Sesame accounts. Each profile gets its own {@link SesameAPI} (token, region, cache,
+ * polling and outbox), so keys bound to different profiles work side by side.
+ */
+export class SesameProfiles implements ProfileStore {
+    static readonly DEFAULT_PROFILE_ID = 'default';
+
+    private readonly apis: Map<string, SesameAPI> = new Map();
+    private readonly statusChangeListeners: Array<(profileId: string) => void> = [];
+    private readonly punchConflictListeners: Array<(conflict: PunchConflict, profileId: string) => void> = [];
+    private writeQueue: Promise<unknown> = Promise.resolve();
+
+    constructor(private readonly transport: HttpTransport) {}
+
+    /**
+     * API client for a profile; unknown or missing ids fall back to the default profile.
+     */
+    get(profileId?: string): SesameAPI {
+        const id = profileId || SesameProfiles.DEFAULT_PROFILE_ID;
+        let api = this.apis.get(id);
+
+        if (!api) {
+            api = new SesameAPI(id, this, this.transport);
+            api.addStatusChangeListener(() => this.notifyStatusListeners(id));
+            api.addPunchConflictListener(conflict => this.notifyPunchConflictListeners(conflict, id));
+            this.apis.set(id, api);
+        }
+
+        return api;
+    }
+
+    /**
+     * Migrate the settings layout and start polling for every logged-in profile.
+     */
+    async initialize(): Promise<void> {
+        const settings = await this.update(current => current);
+        const ids = Object.keys(settings.profiles ?? {});
+
+        for (const id of ids) {
+            const api = this.get(id);
+            api.polling.setWorkingHours(settings.workingHours ?? null);
+            api.setCheckOutGuard(settings.checkOutGuard ?? null);
+            await api.initializePolling();
+        }
+
+        streamDeck.logger.info(`Profiles initialized: ${ids.join(', ')}`);
+    }
+
+    /**
+     * All profiles, default first.
+     */
+    async list(): Promise<ProfileSummary[]> {
+        const { profiles = {} } = await this.loadGlobalSettings();
+        return Object.entries(profiles).map(([id, profile]) => ({
+            id,
+            name: profile.name,
+            email: profile.email,
+            isAuthenticated: !!profile.isAuthenticated
+        }));
+    }
+
+    /**
+     * Create an empty profile and return its id.
+     */
+    async create(name: string): Promise<string> {
+        const id = `profile-${Date.now().toString(36)}`;
+        await this.update(settings => ({
+            ...settings,
+            profiles: { ...settings.profiles, [id]: { name: name.trim() || 'Profile' } }
+        }));
+        streamDeck.logger.info(`Profile created: ${id} (${name})`);
+        return id;
+    }
+
+    /**
+     * Log out and delete a profile. The default profile can only be logged out.
+     */
+    async remove(profileId: string): Promise<void> {
+        await this.get(profileId).logout();
+        if (profileId === SesameProfiles.DEFAULT_PROFILE_ID) {
+            return;
+        }
+
+        this.apis.delete(profileId);
+        await this.update(settings => {
+            const { [profileId]: removed, ...profiles } = settings.profiles ?? {};
+            return { ...settings, profiles };
+        });
+        streamDeck.logger.info(`Profile removed: ${profileId}`);
+    }
+
+    /**
+     * Save the working hours shared by every profile's status polling (null polls all day)
+     */
+    async setWorkingHours(hours: WorkingHours | null): Promise<void> {
+        await this.update(settings => ({ ...settings, workingHours: hours ?? undefined }));
+        this.apis.forEach(api => api.polling.setWorkingHours(hours));
+        streamDeck.logger.info('Working hours updated:', JSON.stringify(hours));
+    }
+
+    /**
+     * Save the forgotten check-out limits shared by every profile (null disables the check)
+     */
+    async setCheckOutGuard(guard: CheckOutGuard | null): Promise<void> {
+        await this.update(settings => ({ ...settings, checkOutGuard: guard ?? undefined }));
+        this.apis.forEach(api => api.setCheckOutGuard(guard));
+        streamDeck.logger.info('Check-out guard updated:', JSON.stringify(guard));
+    }
+
+    /**
+     * Settings of one profile ({@link ProfileStore}).
+     */
+    async load(profileId: string): Promise<ProfileSettings> {
+        const { profiles = {} } = await this.loadGlobalSettings();
+        return profiles[profileId] ?? { name: profileId };
+    }
+
+    /**
+     * Merge changes into one profile ({@link ProfileStore}). Undefined values clear a field.
+     */
+    async save(profileId: string, changes: Partial<ProfileSettings>): Promise<ProfileSettings> {
+        const settings = await this.update(current => {
+            const profiles = current.profiles ?? {};
+            const profile: ProfileSettings = { ...(profiles[profileId] ?? { name: profileId }), ...changes };
+            return { ...current, profiles: { ...profiles, [profileId]: profile } };
+        });
+        return settings.profiles![profileId];
+    }
+
+    /**
+     * Add a listener for status changes of any profile
+     */
+    public addStatusChangeListener(listener: (profileId: string) => void): void {
+        this.statusChangeListeners.push(listener);
+    }
+
+    /**
+     * Add a listener for queued punches of any profile that could not be replayed
+     */
+    public addPunchConflictListener(listener: (conflict: PunchConflict, profileId: string) => void): void {
+        this.punchConflictListeners.push(listener);
+    }
+
+    private notifyStatusListeners(profileId: string): void {
+        this.statusChangeListeners.forEach(listener => {
+            try {
+                listener(profileId);
+            } catch (error) {
+                streamDeck.logger.error('Error in status change listener:', error);
+            }
+        });
+    }
+
+    private notifyPunchConflictListeners(conflict: PunchConflict, profileId: string): void {
+        this.punchConflictListeners.forEach(listener => {
+            try {
+                listener(conflict, profileId);
+            } catch (error) {
+                streamDeck.logger.error('Error in punch conflict listener:', error);
+            }
+        });
+    }
+
+    private async loadGlobalSettings(): Promise<GlobalPluginSettings> {
+        await this.writeQueue;
+        return this.migrate(await streamDeck.settings.getGlobalSettings<GlobalPluginSettings>());
+    }
+
+    /**
+     * Read-modify-write of the global settings. Writes are serialized so that two profiles
+     * saving at the same time do not overwrite each other.
+     */
+    private update(change: (settings: GlobalPluginSettings) => GlobalPluginSettings): Promise<GlobalPluginSettings> {
+        const next = this.writeQueue.then(async () => {
+            const current = this.migrate(await streamDeck.settings.getGlobalSettings<GlobalPluginSettings>());
+            const updated = change(current);
+            await streamDeck.settings.setGlobalSettings(updated);
+            return updated;
+        });
+
+        this.writeQueue = next.catch(() => undefined);
+        return next;
+    }
+
+    /**
+     * Move the single-account fields into the default profile.
+     */
+    private migrate(settings: GlobalPluginSettings): GlobalPluginSettings {
+        if (settings.profiles && settings.profiles[SesameProfiles.DEFAULT_PROFILE_ID]) {
+            return settings;
+        }
+
+        const legacy: Record<string, any> = {};
+        const rest: GlobalPluginSettings = {};
+        for (const [key, value] of Object.entries(settings)) {
+            if (LEGACY_PROFILE_FIELDS.includes(key)) {
+                legacy[key] = value;
+            } else {
+                rest[key] = value;
+            }
+        }
+
+        const defaultProfile: ProfileSettings = { ...legacy, name: legacy.email ?? 'Default' };
+        return {
+            ...rest,
+            profiles: { [SesameProfiles.DEFAULT_PROFILE_ID]: defaultProfile, ...settings.profiles }
+        };
+    }
+}
+
+// Shared registry (uses the mock server when SESAME_MOCK_URL is set)
+export const sesameProfiles = new SesameProfiles(resolveTransport());
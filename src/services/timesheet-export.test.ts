@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { buildTimesheet, timesheetToCsv } from "./timesheet-export";
+import type { DailyComputedHourStat, EmployeeCheck } from "./sesame-api";
+
+const now = new Date(2026, 9, 21, 12, 0).getTime();
+
+function check(id: string, start: Date, end: Date, checkType = 'work', breakName?: string): EmployeeCheck {
+    return {
+        id,
+        checkType,
+        checkIn: { date: start.toISOString() },
+        checkOut: { date: end.toISOString() },
+        ...(breakName ? { workBreak: { id: 'lunch', name: breakName, breakMinutes: 60 } as any } : {})
+    };
+}
+
+const checks = [
+    check('mon-am', new Date(2026, 9, 19, 9, 0), new Date(2026, 9, 19, 13, 0)),
+    check('mon-lunch', new Date(2026, 9, 19, 13, 0), new Date(2026, 9, 19, 13, 30), 'pause', 'Comida, larga'),
+    check('mon-pm', new Date(2026, 9, 19, 13, 30), new Date(2026, 9, 19, 17, 30)),
+    check('tue', new Date(2026, 9, 20, 9, 0), new Date(2026, 9, 20, 15, 0))
+];
+
+describe('buildTimesheet', () => {
+    it('lists the checks oldest first with their totals per day', () => {
+        const timesheet = buildTimesheet('2026-10-19', '2026-10-20', checks, [], now);
+
+        expect(timesheet.rows.map(row => row.checkId)).toEqual(['mon-am', 'mon-lunch', 'mon-pm', 'tue']);
+        expect(timesheet.rows[1]).toMatchObject({ type: 'pause', seconds: 1800, workBreak: 'Comida, larga' });
+        expect(timesheet.days).toEqual([
+            { date: '2026-10-19', workedSeconds: 8 * 3600, breakSeconds: 1800, overtimeSeconds: 8 * 3600, secondsToWork: 0 },
+            { date: '2026-10-20', workedSeconds: 6 * 3600, breakSeconds: 0, overtimeSeconds: 6 * 3600, secondsToWork: 0 }
+        ]);
+    });
+
+    it("prefers Sesame's computed stats and adds days that only have stats", () => {
+        const stats: DailyComputedHourStat[] = [
+            { date: '2026-10-19', employeeId: 'employee-1', workedSeconds: 7 * 3600, secondsToWork: 8 * 3600, breakSeconds: 2000 },
+            { date: '2026-10-21', employeeId: 'employee-1', workedSeconds: 0, secondsToWork: 8 * 3600 }
+        ];
+
+        const timesheet = buildTimesheet('2026-10-19', '2026-10-21', checks, stats, now);
+
+        expect(timesheet.days.map(day => day.date)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+        expect(timesheet.days[0]).toEqual({ date: '2026-10-19', workedSeconds: 7 * 3600, breakSeconds: 2000, overtimeSeconds: 0, secondsToWork: 8 * 3600 });
+    });
+
+    it('leaves out the days outside the range', () => {
+        const timesheet = buildTimesheet('2026-10-20', '2026-10-20', checks, [], now);
+        expect(timesheet.days.map(day => day.date)).toEqual(['2026-10-20']);
+    });
+});
+
+describe('timesheetToCsv', () => {
+    it('writes both sections with CRLF and quotes fields that need it', () => {
+        const csv = timesheetToCsv(buildTimesheet('2026-10-19', '2026-10-19', checks.slice(0, 2), [], now));
+        const lines = csv.split('\r\n');
+
+        expect(lines[0]).toBe('date,check_id,type,start,end,seconds,work_break');
+        expect(lines[2]).toMatch(/^2026-10-19,mon-lunch,pause,.*,1800,"Comida, larga"$/);
+        expect(lines[3]).toBe('');
+        expect(lines[4]).toBe('date,worked_seconds,break_seconds,overtime_seconds,seconds_to_work');
+        expect(lines[5]).toBe('2026-10-19,14400,1800,14400,0');
+        expect(csv.endsWith('\r\n')).toBe(true);
+    });
+});
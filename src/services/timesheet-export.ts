@@ -0,0 +1,112 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import type { DailyComputedHourStat, EmployeeCheck } from "./sesame-api";
+import { groupChecksByDay } from "./check-history";
+
+export type ExportFormat = 'csv' | 'json';
+
+/**
+ * One check of the timesheet.
+ */
+export interface TimesheetRow {
+    date: string; // YYYY-MM-DD
+    checkId: string;
+    type: 'work' | 'pause';
+    start: string | null; // ISO timestamps
+    end: string | null;
+    seconds: number;
+    workBreak: string | null;
+}
+
+/**
+ * Totals of one day of the timesheet. Sesame's computed stats win over the sums of the checks.
+ */
+export interface TimesheetDay {
+    date: string;
+    workedSeconds: number;
+    breakSeconds: number;
+    overtimeSeconds: number;
+    secondsToWork: number;
+}
+
+export interface Timesheet {
+    from: string;
+    to: string;
+    rows: TimesheetRow[];
+    days: TimesheetDay[];
+}
+
+/**
+ * Where exports are written when no folder is configured.
+ */
+export function defaultExportFolder(): string {
+    return path.join(os.homedir(), 'Downloads');
+}
+
+/**
+ * Build the timesheet of a date range from its checks and daily computed hour stats.
+ */
+export function buildTimesheet(from: string, to: string, checks: EmployeeCheck[], stats: DailyComputedHourStat[], nowMillis: number = Date.now()): Timesheet {
+    const byDay = groupChecksByDay(checks, nowMillis).reverse(); // Oldest first
+    const statsByDate = new Map(stats.map(stat => [stat.date, stat]));
+    const dates = [...new Set([...byDay.map(day => day.date), ...stats.map(stat => stat.date)])]
+        .filter(date => date >= from && date <= to)
+        .sort();
+
+    const rows: TimesheetRow[] = byDay.flatMap(day => day.entries.map(entry => ({
+        date: day.date,
+        checkId: entry.checkId,
+        type: entry.kind,
+        start: entry.start,
+        end: entry.end,
+        seconds: entry.seconds,
+        workBreak: entry.breakName
+    })));
+
+    const days: TimesheetDay[] = dates.map(date => {
+        const fromChecks = byDay.find(day => day.date === date);
+        const stat = statsByDate.get(date);
+        const workedSeconds = stat?.secondsWorked ?? stat?.workedSeconds ?? fromChecks?.workSeconds ?? 0;
+        const secondsToWork = stat?.secondsToWork ?? 0;
+        return {
+            date,
+            workedSeconds,
+            breakSeconds: stat?.breakSeconds ?? fromChecks?.pauseSeconds ?? 0,
+            overtimeSeconds: stat?.overtimeSeconds ?? Math.max(0, workedSeconds - secondsToWork),
+            secondsToWork
+        };
+    });
+
+    return { from, to, rows, days };
+}
+
+/**
+ * CSV with the checks, a blank line and the daily totals, each section with its own header.
+ */
+export function timesheetToCsv(timesheet: Timesheet): string {
+    const lines = [
+        'date,check_id,type,start,end,seconds,work_break',
+        ...timesheet.rows.map(row => [row.date, row.checkId, row.type, row.start ?? '', row.end ?? '', row.seconds, row.workBreak ?? ''].map(csvField).join(',')),
+        '',
+        'date,worked_seconds,break_seconds,overtime_seconds,seconds_to_work',
+        ...timesheet.days.map(day => [day.date, day.workedSeconds, day.breakSeconds, day.overtimeSeconds, day.secondsToWork].map(csvField).join(','))
+    ];
+    return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Write the timesheet to `folder` (created if needed) and return the file path.
+ */
+export async function writeTimesheet(timesheet: Timesheet, format: ExportFormat, folder: string = defaultExportFolder()): Promise<string> {
+    await mkdir(folder, { recursive: true });
+    const file = path.join(folder, `sesame-timesheet-${timesheet.from}_${timesheet.to}.${format}`);
+    const content = format === 'csv' ? timesheetToCsv(timesheet) : JSON.stringify(timesheet, null, 2);
+    await writeFile(file, content, 'utf8');
+    return file;
+}
+
+function csvField(value: string | number): string {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
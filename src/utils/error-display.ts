@@ -1,3 +1,19 @@
+import { SesameError, SesameErrorKind } from "../services/sesame-errors";
+
+/**
+ * Key image and Property Inspector wording for each kind of API error.
+ */
+const ERROR_DISPLAY: Record<SesameErrorKind, { color: string; icon: string; label: string; hint: string }> = {
+    'auth': { color: '#991b1b', icon: '🔒', label: 'Sin sesión', hint: 'Session expired or invalid credentials. Log in again.' },
+    'network': { color: '#475569', icon: '📡', label: 'Sin red', hint: 'Sesame is unreachable. Check your connection.' },
+    'region': { color: '#7c2d12', icon: '🌍', label: 'Región', hint: 'Could not find the Sesame region for this account.' },
+    'rate-limit': { color: '#a16207', icon: '⏳', label: 'Espera', hint: 'Too many requests. Try again in a moment.' },
+    'validation': { color: '#9a3412', icon: '⚠', label: 'Rechazado', hint: 'Sesame rejected the request.' },
+    'already-checked-in': { color: '#166534', icon: '✔', label: 'Ya dentro', hint: 'You are already checked in.' },
+    'conflict': { color: '#86198f', icon: '⇄', label: 'Conflicto', hint: 'An offline punch was discarded because Sesame changed meanwhile.' },
+    'server': { color: '#991b1b', icon: '✖', label: 'Error', hint: 'Sesame returned an unexpected error.' },
+};
+
 /**
  * Generate an error SVG to display on a Stream Deck button.
  */
@@ -31,20 +47,116 @@ export function generateErrorSVG(message: string): string {
     `)}`;
 }
 
-function escapeXml(s: string): string {
+/**
+ * Generate a key image for a typed API error: one color and icon per error kind.
+ */
+export function generateApiErrorSVG(error: SesameError): string {
+    const display = ERROR_DISPLAY[error.kind];
+    const status = error.status ? String(error.status) : '';
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="${display.color}"/>
+            <text x="72" y="62" font-family="Arial, sans-serif" font-size="40" fill="#FFFFFF" text-anchor="middle">${display.icon}</text>
+            <text x="72" y="100" font-family="Arial, sans-serif" font-size="20" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${escapeXml(display.label)}</text>
+            ${status ? `<text x="72" y="126" font-family="Arial, sans-serif" font-size="13" fill="#e5e7eb" text-anchor="middle">${status}</text>` : ''}
+        </svg>
+    `)}`;
+}
+
+/**
+ * Generate the key image shown right after a punch was queued offline.
+ */
+export function generatePendingSVG(pendingCount: number): string {
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="#1e3a8a"/>
+            <text x="72" y="62" font-family="Arial, sans-serif" font-size="40" fill="#FFFFFF" text-anchor="middle">🕓</text>
+            <text x="72" y="100" font-family="Arial, sans-serif" font-size="20" font-weight="bold" fill="#FFFFFF" text-anchor="middle">Pendiente</text>
+            <text x="72" y="126" font-family="Arial, sans-serif" font-size="13" fill="#e5e7eb" text-anchor="middle">${pendingCount} en cola</text>
+        </svg>
+    `)}`;
+}
+
+/**
+ * Generate the warning shown while a check-out looks forgotten; `lit` alternates to make the key flash
+ * and `gesture` tells how the backdated check-out is accepted on this key.
+ */
+export function generateForgottenCheckOutSVG(checkOutAt: Date, lit: boolean, gesture = 'Pulsa'): string {
+    const time = checkOutAt.toLocaleTimeString('es-ES', { hour: '2-digit', minute: '2-digit' });
+
+    return `data:image/svg+xml,${encodeURIComponent(`
+        <svg width="144" height="144" xmlns="http://www.w3.org/2000/svg">
+            <rect width="144" height="144" fill="${lit ? '#dc2626' : '#7f1d1d'}"/>
+            <text x="72" y="40" font-family="Arial, sans-serif" font-size="30" fill="#FFFFFF" text-anchor="middle">⚠</text>
+            <text x="72" y="70" font-family="Arial, sans-serif" font-size="17" font-weight="bold" fill="#FFFFFF" text-anchor="middle">¿Olvidaste</text>
+            <text x="72" y="90" font-family="Arial, sans-serif" font-size="17" font-weight="bold" fill="#FFFFFF" text-anchor="middle">salir?</text>
+            <text x="72" y="122" font-family="Arial, sans-serif" font-size="13" fill="#fecaca" text-anchor="middle">${gesture}: salida ${time}</text>
+        </svg>
+    `)}`;
+}
+
+/**
+ * SVG fragment with a small "pending punches" badge for the top-right corner of a key.
+ * Returns an empty string when nothing is pending.
+ */
+export function pendingBadgeSVG(pendingCount: number): string {
+    if (pendingCount <= 0) {
+        return '';
+    }
+    return `
+        <circle cx="122" cy="22" r="16" fill="#2563eb" stroke="#FFFFFF" stroke-width="2"/>
+        <text x="122" y="28" font-family="Arial, sans-serif" font-size="16" font-weight="bold" fill="#FFFFFF" text-anchor="middle">${pendingCount}</text>
+    `;
+}
+
+/**
+ * Message shown in the Property Inspector for a typed API error.
+ */
+export function describeError(error: SesameError): string {
+    const { hint } = ERROR_DISPLAY[error.kind];
+    return error.message && error.message !== hint ? `${hint} (${error.message})` : hint;
+}
+
+/**
+ * Escape text placed inside an SVG element.
+ */
+export function escapeXml(s: string): string {
     return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
+/**
+ * Briefly confirm that a punch was queued offline, then restore the button.
+ */
+export async function showPendingPunch(
+    action: any,
+    pendingCount: number,
+    restoreCallback: () => Promise<void>,
+    durationMs = 3000
+): Promise<void> {
+    await action.setImage(generatePendingSVG(pendingCount));
+    await action.sendToPropertyInspector({ event: 'apiError', kind: 'network', message: 'Sesame is unreachable. The punch was saved and will be sent when the connection returns.' }).catch(() => {});
+    setTimeout(() => {
+        restoreCallback().catch(() => {});
+    }, durationMs);
+}
+
 /**
  * Show a temporary error on a button, then restore its normal state.
+ * Typed API errors also notify the Property Inspector, if it is open.
  */
 export async function showButtonError(
     action: any,
-    message: string,
+    error: SesameError | string,
     restoreCallback: () => Promise<void>,
     durationMs = 3000
 ): Promise<void> {
-    await action.setImage(generateErrorSVG(message));
+    if (typeof error === 'string') {
+        await action.setImage(generateErrorSVG(error));
+    } else {
+        await action.setImage(generateApiErrorSVG(error));
+        await action.sendToPropertyInspector({ event: 'apiError', kind: error.kind, message: describeError(error) }).catch(() => {});
+    }
     setTimeout(() => {
         restoreCallback().catch(() => {});
     }, durationMs);
@@ -0,0 +1,103 @@
+import streamDeck from "@elgato/streamdeck";
+import { CoordinatePreset, isValidCoordinates } from "../services/coordinates";
+import { JournalFilter, exportJournal, punchJournal } from "../services/punch-journal";
+import { SesameAPI } from "../services/sesame-api";
+import { sesameProfiles } from "../services/sesame-profiles";
+
+const JOURNAL_PAGE_SIZE = 200; // Entries listed in the property inspector; exports include all of them
+
+/**
+ * Handle the profile, company, location and shared-settings messages every property inspector can send.
+ * Returns false when the message is not one of them.
+ */
+export async function handleProfileMessage(action: any, payload: any, api: SesameAPI): Promise<boolean> {
+    if (payload.event === 'createProfile') {
+        const profileId = await sesameProfiles.create(payload.name ?? '');
+        await action.sendToPropertyInspector({ event: 'profileCreated', profileId });
+        return true;
+    }
+
+    if (payload.event === 'deleteProfile') {
+        if (payload.profileId) {
+            await sesameProfiles.remove(payload.profileId);
+        }
+        await action.sendToPropertyInspector({ event: 'profileDeleted', profileId: payload.profileId });
+        return true;
+    }
+
+    if (payload.event === 'selectEmployee') {
+        await api.selectEmployee(payload.employeeId);
+        return true;
+    }
+
+    if (payload.event === 'saveCoordinatePresets') {
+        const presets: CoordinatePreset[] = (payload.presets ?? []).filter(isValidCoordinates);
+        const defaultPresetId = presets.some(preset => preset.id === payload.defaultPresetId) ? payload.defaultPresetId : undefined;
+        await api.saveSettings({ coordinatePresets: presets, defaultCoordinatePresetId: defaultPresetId });
+        return true;
+    }
+
+    if (payload.event === 'workingHours') {
+        await sesameProfiles.setWorkingHours(payload.workingHours ?? null);
+        return true;
+    }
+
+    if (payload.event === 'checkOutGuard') {
+        await sesameProfiles.setCheckOutGuard(payload.checkOutGuard ?? null);
+        return true;
+    }
+
+    if (payload.event === 'loadJournal') {
+        const entries = await punchJournal.read(journalFilter(payload, api));
+        await action.sendToPropertyInspector({ event: 'journalLoaded', entries: entries.slice(0, JOURNAL_PAGE_SIZE), total: entries.length });
+        return true;
+    }
+
+    if (payload.event === 'exportJournal') {
+        try {
+            const file = await exportJournal(await punchJournal.read(journalFilter(payload, api)));
+            await action.sendToPropertyInspector({ event: 'journalExported', success: true, file });
+        } catch (error) {
+            streamDeck.logger.error('Punch journal export failed:', error);
+            await action.sendToPropertyInspector({ event: 'journalExported', success: false, error: error instanceof Error ? error.message : String(error) });
+        }
+        return true;
+    }
+
+    if (payload.event === 'loadCorrectionBreaks') {
+        const workStatus = await api.getWorkStatus();
+        const workBreaks = workStatus ? await api.getAllWorkBreaks(workStatus.employeeId) ?? [] : [];
+        await action.sendToPropertyInspector({ event: 'correctionBreaksLoaded', workBreaks: workBreaks.filter(workBreak => workBreak.active) });
+        return true;
+    }
+
+    if (payload.event === 'correctPunch') {
+        const [hours, minutes] = String(payload.time ?? '').split(':').map(Number);
+        const at = new Date();
+        at.setHours(hours, minutes, 0, 0);
+        if (isNaN(at.getTime()) || !['checkIn', 'checkOut', 'pause'].includes(payload.punch)) {
+            await action.sendToPropertyInspector({ event: 'punchCorrected', success: false, error: 'Pick a punch and a time' });
+            return true;
+        }
+
+        const result = await api.correctPunch(payload.punch, at, payload.workBreakId || undefined, { actionUUID: action.manifestId });
+        await action.sendToPropertyInspector({ event: 'punchCorrected', success: result.ok, error: result.ok ? undefined : result.error.message });
+        return true;
+    }
+
+    streamDeck.logger.info(`Unhandled property inspector message: ${payload.event}`);
+    return false;
+}
+
+/**
+ * Journal filter of a property inspector message, limited to the key's profile
+ */
+function journalFilter(payload: any, api: SesameAPI): JournalFilter {
+    return {
+        profileId: api.profileId,
+        punch: payload.punch || undefined,
+        from: payload.from || undefined,
+        to: payload.to || undefined,
+        text: payload.text || undefined
+    };
+}